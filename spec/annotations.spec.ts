@@ -0,0 +1,175 @@
+import {Editable} from '../src/features.js'
+import config from '../src/config.js'
+import {createElement} from '../src/util/dom.js'
+
+describe('Annotations', function () {
+  let div, editable, annotations
+
+  beforeEach(function () {
+    div = createElement('<div>foo bar baz</div>')
+    document.body.appendChild(div)
+    editable = new Editable()
+    editable.setupAnnotations()
+    editable.add(div)
+    annotations = editable.annotations
+  })
+
+  afterEach(function () {
+    editable.unload()
+    div.remove()
+  })
+
+  function markerText (id) {
+    return Array.from(div.querySelectorAll(`[data-word-id="${id}"]`))
+      .map((elem) => elem.textContent)
+      .join('')
+  }
+
+  function change () {
+    editable.dispatcher.notify('change', div)
+  }
+
+  describe('add()', function () {
+
+    it('anchors an annotation to a range', function () {
+      const annotation = annotations.add(div, {id: 'a', start: 4, end: 7})
+      expect(annotation).toEqual({id: 'a', start: 4, end: 7, text: 'bar', orphaned: false, comments: []})
+      expect(markerText('a')).toBe('bar')
+      expect(div.querySelector('[data-word-id="a"]').getAttribute('data-highlight')).toBe('comment')
+    })
+
+    it('generates an id', function () {
+      expect(annotations.add(div, {start: 0, end: 3}).id).toBe('annotation-1')
+    })
+
+    it('does not add an annotation for an empty range', function () {
+      const logErrors = config.logErrors
+      config.logErrors = false
+      expect(annotations.add(div, {start: 2, end: 2})).toBe(undefined)
+      expect(annotations.getAll(div)).toEqual([])
+      config.logErrors = logErrors
+    })
+
+    it('splits the markers of overlapping annotations', function () {
+      annotations.add(div, {id: 'a', start: 0, end: 7})
+      annotations.add(div, {id: 'b', start: 4, end: 11})
+      expect(div.querySelectorAll('[data-word-id="b"]').length).toBe(2)
+      expect(markerText('a')).toBe('foo bar')
+      expect(markerText('b')).toBe('bar baz')
+      expect(editable.getContent(div)).toBe('foo bar baz')
+    })
+  })
+
+  describe('update()', function () {
+
+    it('moves an annotation with its text', function () {
+      const moved = []
+      editable.on('annotationMoved', (host, annotation) => moved.push({...annotation}))
+      annotations.add(div, {id: 'a', start: 4, end: 7})
+      div.insertBefore(document.createTextNode('new '), div.firstChild)
+      change()
+      expect(annotations.get(div, 'a')).toMatchObject({start: 8, end: 11, text: 'bar'})
+      expect(moved).toEqual([annotations.get(div, 'a')])
+    })
+
+    it('keeps the positions of overlapping annotations', function () {
+      annotations.add(div, {id: 'a', start: 0, end: 7})
+      annotations.add(div, {id: 'b', start: 4, end: 11})
+      div.insertBefore(document.createTextNode('x'), div.firstChild)
+      change()
+      expect(annotations.getAll(div).map(({start, end}) => [start, end])).toEqual([[1, 8], [5, 12]])
+    })
+
+    it('orphans an annotation when its text is deleted', function () {
+      const orphaned = []
+      editable.on('annotationOrphaned', (host, annotation) => orphaned.push(annotation.id))
+      annotations.add(div, {id: 'a', start: 4, end: 7})
+      div.querySelector('[data-word-id="a"]').remove()
+      change()
+      expect(annotations.get(div, 'a').orphaned).toBe(true)
+      expect(orphaned).toEqual(['a'])
+
+      change()
+      expect(orphaned).toEqual(['a'])
+    })
+
+    it('keeps an annotation when a change is undone', function () {
+      annotations.add(div, {id: 'a', start: 4, end: 7})
+      div.insertBefore(document.createTextNode('new '), div.firstChild)
+      change()
+      editable.history.undo()
+      expect(annotations.get(div, 'a')).toMatchObject({start: 4, end: 7, text: 'bar', orphaned: false})
+      expect(markerText('a')).toBe('bar')
+    })
+
+    it('renders the marker again when a change before the annotation is undone', function () {
+      div.appendChild(document.createTextNode(' qux'))
+      change()
+      annotations.add(div, {id: 'a', start: 4, end: 7})
+      editable.history.undo()
+      expect(div.textContent).toBe('foo bar baz')
+      expect(annotations.get(div, 'a').orphaned).toBe(false)
+      expect(markerText('a')).toBe('bar')
+    })
+
+    it('does not notify unmoved annotations', function () {
+      let events = 0
+      editable.on('annotationMoved', () => { events++ })
+      annotations.add(div, {id: 'a', start: 4, end: 7})
+      change()
+      expect(events).toBe(0)
+    })
+  })
+
+  describe('remove()', function () {
+
+    it('removes the annotation and its markers', function () {
+      annotations.add(div, {id: 'a', start: 4, end: 7})
+      expect(annotations.remove(div, 'a')).toBe(true)
+      expect(div.innerHTML).toBe('foo bar baz')
+      expect(annotations.getAll(div)).toEqual([])
+    })
+
+    it('returns false for an unknown annotation', function () {
+      expect(annotations.remove(div, 'a')).toBe(false)
+    })
+  })
+
+  describe('addComment()', function () {
+
+    it('adds comments to the thread', function () {
+      annotations.add(div, {id: 'a', start: 4, end: 7})
+      annotations.addComment(div, 'a', {author: 'Ada', text: 'Why?'})
+      annotations.addComment(div, 'a', {author: 'Bob', text: 'Because.'})
+      const {comments} = annotations.get(div, 'a')
+      expect(comments.map(({id, author, text}) => [id, author, text])).toEqual([
+        ['a-comment-1', 'Ada', 'Why?'],
+        ['a-comment-2', 'Bob', 'Because.']
+      ])
+    })
+  })
+
+  describe('serialize() and deserialize()', function () {
+
+    it('restores exported annotations', function () {
+      annotations.add(div, {id: 'a', start: 0, end: 3})
+      annotations.add(div, {id: 'b', start: 4, end: 11})
+      annotations.addComment(div, 'b', {author: 'Ada', text: 'Hi'})
+      const json = annotations.serialize(div)
+
+      annotations.remove(div, 'a')
+      annotations.remove(div, 'b')
+      const restored = annotations.deserialize(div, json)
+      expect(JSON.stringify(restored)).toBe(json)
+      expect(markerText('a')).toBe('foo')
+      expect(markerText('b')).toBe('bar baz')
+    })
+
+    it('restores orphaned annotations without markers', function () {
+      const json = JSON.stringify([{id: 'a', start: 0, end: 3, text: 'old', orphaned: true, comments: []}])
+      annotations.deserialize(div, json)
+      expect(annotations.get(div, 'a').orphaned).toBe(true)
+      expect(div.innerHTML).toBe('foo bar baz')
+    })
+  })
+})
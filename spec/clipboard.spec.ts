@@ -1,7 +1,12 @@
 
-import {parseContent, updateConfig} from '../src/clipboard.js'
+import {blocksMimeType, copy, parseBlocks, parseContent, parseCopiedBlocks, paste, updateConfig} from '../src/clipboard.js'
+import Cursor from '../src/cursor.js'
+import PasteTransforms from '../src/paste-transforms.js'
 import {cloneDeep} from '../src/util/clone-deep.js'
 import config from '../src/config.js'
+import Selection from '../src/selection.js'
+import MultiBlockSelection from '../src/multi-block-selection.js'
+import {createElement, createRange} from '../src/util/dom.js'
 
 describe('Clipboard', function () {
 
@@ -197,6 +202,10 @@ describe('Clipboard', function () {
       expect(parseContent(div)[0]).toBe('bar')
     })
 
+    it('removes links with a script url', function () {
+      expect(extractSingleBlock('<a href="javascript:alert(1)">foo</a>')).toBe('foo')
+    })
+
     // Replace quotation marks
     // -----------------------
 
@@ -384,6 +393,61 @@ describe('Clipboard', function () {
       })
     })
 
+    describe('replace quotes by language', function () {
+
+      function extractWithLang (str: string, lang: string) {
+        const div = document.createElement('div')
+        div.innerHTML = str
+        return parseContent(div, {lang})[0]
+      }
+
+      it('uses the quotes of the language', function () {
+        expect(extractWithLang(`"it's 'nice'"`, 'de')).toBe('„it’s ‚nice‘“')
+        expect(extractWithLang(`"it's 'nice'"`, 'de-CH')).toBe('«it’s ‹nice›»')
+        expect(extractWithLang(`"it's 'nice'"`, 'en-US')).toBe('“it’s ‘nice’”')
+      })
+
+      it('does nothing for unknown languages', function () {
+        expect(extractWithLang('"text"', 'tlh')).toBe('"text"')
+      })
+
+      it('prefers the configured replaceQuotes', function () {
+        const updatedConfig = cloneDeep(config)
+        updatedConfig.pastedHtmlRules.replaceQuotes = {quotes: ['«', '»']}
+        updateConfig(updatedConfig)
+        expect(extractWithLang(`"it's 'nice'"`, 'de')).toBe('«it’s ‚nice‘»')
+      })
+    })
+
+    // Lists
+    // -----
+
+    describe('lists', function () {
+
+      function extractBlocks (str: string) {
+        const div = document.createElement('div')
+        div.innerHTML = str
+        return parseBlocks(div)
+      }
+
+      it('creates a block for every list item', function () {
+        expect(extract('<ul><li>a</li><li><strong>b</strong></li></ul>')).toEqual(['a', '<strong>b</strong>'])
+      })
+
+      it('returns the nesting level of list items', function () {
+        expect(extractBlocks('<p>a</p><ul><li>b</li><li>c<ul><li>d</li></ul></li></ul>')).toEqual([
+          {html: 'a', listLevel: undefined},
+          {html: 'b', listLevel: 0},
+          {html: 'c', listLevel: 0},
+          {html: 'd', listLevel: 1}
+        ])
+      })
+
+      it('returns the nesting level of sibling nested lists', function () {
+        expect(extractBlocks('<ol><li>a</li><ol><li>b</li></ol></ol>').map(({listLevel}) => listLevel)).toEqual([0, 1])
+      })
+    })
+
     // Plain Text
     // ----------
 
@@ -421,4 +485,141 @@ describe('Clipboard', function () {
       })
     })
   })
+
+  describe('copy()', function () {
+
+    function selectAll (host) {
+      const range = createRange()
+      range.selectNodeContents(host)
+      return new Selection(host, range)
+    }
+
+    it('removes highlights and zero width spaces', function () {
+      const host = createElement('<p>a <span data-editable="ui-unwrap" class="misspelled">wrod</span>\uFEFF <strong>b</strong></p>')
+      const clipboardData = new DataTransfer()
+      copy(selectAll(host), clipboardData)
+      expect(clipboardData.getData('text/html')).toBe('a wrod <strong>b</strong>')
+      expect(clipboardData.getData('text/plain')).toBe('a wrod b')
+    })
+
+    it('writes the blocks as JSON', function () {
+      const host = createElement('<p>a <strong>b</strong></p>')
+      const clipboardData = new DataTransfer()
+      copy(selectAll(host), clipboardData)
+      expect(JSON.parse(clipboardData.getData(blocksMimeType))).toEqual([
+        {text: 'a b', marks: [{type: 'bold', start: 2, end: 3}]}
+      ])
+    })
+
+    it('omits the JSON with the blocks option set to false', function () {
+      const clipboardData = new DataTransfer()
+      copy(selectAll(createElement('<p>a</p>')), clipboardData, {blocks: false})
+      expect(clipboardData.getData(blocksMimeType)).toBe('')
+    })
+
+    it('writes every block of a selection across blocks', function () {
+      const container = createElement('<div><p>first</p><ul><li>second</li><li>third</li></ul></div>')
+      const hosts = Array.from(container.querySelectorAll('p, li')) as HTMLElement[]
+      const range = createRange()
+      range.setStart(hosts[0].firstChild!, 2)
+      range.setEnd(hosts[2].firstChild!, 3)
+      const clipboardData = new DataTransfer()
+      copy(new MultiBlockSelection(hosts, range), clipboardData)
+      expect(clipboardData.getData('text/html')).toBe('<p>rst</p><ul><li>second</li><li>thi</li></ul>')
+      expect(clipboardData.getData('text/plain')).toBe('rst\nsecond\nthi')
+      expect(JSON.parse(clipboardData.getData(blocksMimeType))[1]).toEqual({text: 'second', marks: [], listLevel: 0})
+    })
+  })
+
+  describe('parseCopiedBlocks()', function () {
+
+    it('creates the html of every block', function () {
+      const json = JSON.stringify([
+        {text: 'a b', marks: [{type: 'bold', start: 2, end: 3}]},
+        {text: 'c', marks: [], listLevel: 1}
+      ])
+      expect(parseCopiedBlocks(json)).toEqual([
+        {html: 'a <strong>b</strong>'},
+        {html: 'c', listLevel: 1}
+      ])
+    })
+
+    it('drops the marks for plain text blocks', function () {
+      const json = JSON.stringify([{text: 'a b', marks: [{type: 'bold', start: 2, end: 3}]}])
+      expect(parseCopiedBlocks(json, {plainText: true})).toEqual([{html: 'a b'}])
+    })
+
+    it('returns undefined for invalid blocks', function () {
+      expect(parseCopiedBlocks('{')).toBe(undefined)
+      expect(parseCopiedBlocks('[{"html": "a"}]')).toBe(undefined)
+    })
+  })
+
+  describe('paste()', function () {
+    let block
+
+    beforeEach(function () {
+      block = createElement('<div lang="de"></div>')
+      document.body.appendChild(block)
+    })
+
+    afterEach(function () {
+      block.remove()
+    })
+
+    function pasteText (text, options = {}) {
+      const range = createRange()
+      range.selectNodeContents(block)
+      return paste(block, new Cursor(block, range), text, options).blocks
+    }
+
+    it('keeps the quotes without smartQuotes', function () {
+      expect(pasteText('"a"')).toEqual(['"a"'])
+    })
+
+    it('uses the quotes of the block language with smartQuotes', function () {
+      expect(pasteText('"a"', {smartQuotes: true})).toEqual(['„a“'])
+    })
+  })
+
+  describe('paste() with copied blocks', function () {
+    let block
+
+    beforeEach(function () {
+      block = document.createElement('div')
+      document.body.appendChild(block)
+    })
+
+    afterEach(function () {
+      block.remove()
+    })
+
+    function pasteBlocks (copiedBlocks, transforms?) {
+      const range = createRange()
+      range.selectNodeContents(block)
+      return paste(block, new Cursor(block, range), '', {copiedBlocks: JSON.stringify(copiedBlocks), transforms})
+    }
+
+    it('filters the marks with the pastedHtmlRules', function () {
+      const {blocks} = pasteBlocks([{text: 'foo', marks: [
+        {type: 'link', start: 0, end: 3, attrs: {href: 'javascript:alert(1)'}}
+      ]}])
+      expect(blocks).toEqual(['foo'])
+    })
+
+    it('uses the rules of the paste profile', function () {
+      const transforms = new PasteTransforms().addProfile('title', {allowedElements: {}})
+      block.setAttribute('data-paste-profile', 'title')
+      const {blocks} = pasteBlocks([{text: 'a b', marks: [{type: 'bold', start: 2, end: 3}]}], transforms)
+      expect(blocks).toEqual(['a b'])
+    })
+
+    it('runs the DOM transforms', function () {
+      const transforms = new PasteTransforms()
+      transforms.use((element) => { element.querySelector('strong')?.remove() })
+      const {blocks, listLevels} = pasteBlocks([{text: 'a b', marks: [{type: 'bold', start: 2, end: 3}], listLevel: 1}], transforms)
+      expect(blocks).toEqual(['a'])
+      expect(listLevels).toEqual([1])
+    })
+  })
 })
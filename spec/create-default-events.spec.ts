@@ -1,5 +1,5 @@
 
-import {createRange} from '../src/util/dom.js'
+import {createRange, toCharacterRange} from '../src/util/dom.js'
 
 import Cursor from '../src/cursor.js'
 import {Editable} from '../src/core.js'
@@ -69,5 +69,90 @@ describe('Default Events', function () {
         expect(onFocus.calls).toBe(2)
       })
     })
+
+    describe('on move', function () {
+      let container, first, second, editable
+
+      beforeEach(function () {
+        container = document.createElement('div')
+        container.innerHTML = '<p>first</p><p>second</p>'
+        document.body.appendChild(container)
+        first = container.firstChild
+        second = container.lastChild
+        editable = new Editable()
+        editable.add([first, second])
+      })
+
+      afterEach(function () {
+        editable.unload()
+        container.remove()
+      })
+
+      function cursorAt (elem, offset) {
+        const range = createRange()
+        range.setStart(elem.firstChild, offset)
+        range.collapse(true)
+        return createCursor(elem, range)
+      }
+
+      function altShiftKeydown (elem, keyCode) {
+        elem.dispatchEvent(new KeyboardEvent('keydown', {keyCode, altKey: true, shiftKey: true, bubbles: true}))
+      }
+
+      it('moves a block up with ALT+SHIFT+UP', function () {
+        cursorAt(second, 3)
+        altShiftKeydown(second, 38)
+        expect(container.firstChild).toBe(second)
+      })
+
+      it('moves a block down with ALT+SHIFT+DOWN', function () {
+        cursorAt(first, 0)
+        altShiftKeydown(first, 40)
+        expect(container.lastChild).toBe(first)
+      })
+
+      it('keeps the cursor at the same character offset', function () {
+        cursorAt(second, 3)
+        altShiftKeydown(second, 38)
+        const selection = editable.getSelection()
+        expect(selection.host).toBe(second)
+        expect(toCharacterRange(selection.range, second).start).toBe(3)
+      })
+
+      it('fires change on both blocks', function () {
+        const changed = []
+        on(editable, 'change', (element) => { changed.push(element) })
+        editable.dispatcher.notify('move', second, cursorAt(second, 0), 'before')
+        expect(changed).toEqual([second, first])
+      })
+
+      it('does not move the first block up', function () {
+        const onChange = on(editable, 'change', () => {})
+        editable.dispatcher.notify('move', first, cursorAt(first, 0), 'before')
+        expect(container.firstChild).toBe(first)
+        expect(onChange.calls).toBe(0)
+      })
+
+      it('does not move a block past a non-editable element', function () {
+        const separator = document.createElement('hr')
+        first.after(separator)
+        editable.dispatcher.notify('move', second, cursorAt(second, 0), 'before')
+        expect(container.lastChild).toBe(second)
+      })
+
+      it('uses the bindings of the keymap', function () {
+        editable.keymap({'Alt-Shift-ArrowUp': null})
+        cursorAt(second, 3)
+        altShiftKeydown(second, 38)
+        expect(container.lastChild).toBe(second)
+      })
+
+      it('undoes a move', function () {
+        editable.dispatcher.notify('move', first, cursorAt(first, 0), 'after')
+        editable.history.undo()
+        expect(container.firstChild).toBe(first)
+        expect(container.lastChild).toBe(second)
+      })
+    })
   })
 })
@@ -1,3 +1,4 @@
+import {vi} from 'vitest'
 
 import {createRange, rangesAreEqual} from '../src/util/dom.js'
 import * as content from '../src/content.js'
@@ -5,6 +6,7 @@ import Cursor from '../src/cursor.js'
 import Keyboard from '../src/keyboard.js'
 import {Editable} from '../src/core.js'
 import Selection from '../src/selection.js'
+import {blocksMimeType} from '../src/clipboard.js'
 const {key} = Keyboard
 
 describe('Dispatcher:', function () {
@@ -49,7 +51,7 @@ describe('Dispatcher:', function () {
     const obj = {calls: 0}
     function proxy () {
       obj.calls += 1
-      func.apply(this, arguments)
+      return func.apply(this, arguments)
     }
     editable.on(eventName, proxy)
     return obj
@@ -497,8 +499,70 @@ describe('Dispatcher:', function () {
       })
     })
 
+    describe('on copy:', function () {
+
+      it('writes the cleaned content to the clipboard', function () {
+        elem.innerHTML = 'a\uFEFF<strong>b</strong>'
+        createSelection(createFullRange(elem))
+        const clipboardData = new DataTransfer()
+        const evt = new ClipboardEvent('copy', {clipboardData, bubbles: true, cancelable: true})
+        elem.dispatchEvent(evt)
+        expect(evt.defaultPrevented).toBe(true)
+        expect(clipboardData.getData('text/html')).toBe('a<strong>b</strong>')
+        expect(clipboardData.getData('text/plain')).toBe('ab')
+      })
+
+      it('does not write the blocks with copyBlocks set to false', function () {
+        editable.config.copyBlocks = false
+        elem.innerHTML = 'foo'
+        createSelection(createFullRange(elem))
+        const clipboardData = new DataTransfer()
+        elem.dispatchEvent(new ClipboardEvent('copy', {clipboardData, bubbles: true}))
+        expect(clipboardData.getData(blocksMimeType)).toBe('')
+      })
+    })
+
+    describe('on cut:', function () {
+
+      it('deletes the selected content', function () {
+        elem.innerHTML = 'a<strong>b</strong>c'
+        const range = createRange()
+        range.setStart(elem.firstChild, 1)
+        range.setEnd(elem.lastChild, 0)
+        createSelection(range)
+        const clipboardData = new DataTransfer()
+        const change = on('change', () => {})
+        elem.dispatchEvent(new ClipboardEvent('cut', {clipboardData, bubbles: true}))
+        expect(clipboardData.getData('text/html')).toBe('<strong>b</strong>')
+        expect(elem.innerHTML).toBe('ac')
+        expect(change.calls).toBe(1)
+      })
+    })
+
     describe('on paste:', function () {
 
+      it('runs the paste transforms of the editable', function () {
+        editable.pasteTransforms.use({blocks: () => [{html: 'transformed'}]})
+        const pasted = on('paste', (block, blocks) => {
+          expect(blocks).toEqual(['transformed'])
+        })
+        const clipboardData = new DataTransfer()
+        clipboardData.setData('text/plain', 'a')
+        elem.dispatchEvent(new ClipboardEvent('paste', {clipboardData, bubbles: true}))
+        expect(pasted.calls).toBe(1)
+      })
+
+      it('pastes blocks copied from an editable', function () {
+        const pasted = on('paste', (block, blocks) => {
+          expect(blocks).toEqual(['a <em>b</em>'])
+        })
+        const clipboardData = new DataTransfer()
+        clipboardData.setData('text/html', 'a b')
+        clipboardData.setData(blocksMimeType, JSON.stringify([{text: 'a b', marks: [{type: 'italic', start: 2, end: 3}]}]))
+        elem.dispatchEvent(new ClipboardEvent('paste', {clipboardData, bubbles: true}))
+        expect(pasted.calls).toBe(1)
+      })
+
       it('inserts plain text clipboard content', function () {
         return new Promise((resolve, reject) => {
           const timeout = setTimeout(() => {
@@ -591,6 +655,69 @@ describe('Dispatcher:', function () {
         })
     })
 
+    describe('in list items:', function () {
+      let list, item
+
+      beforeEach(function () {
+        list = document.createElement('ul')
+        item = document.createElement('li')
+        item.innerHTML = 'foo'
+        list.appendChild(item)
+        document.body.appendChild(list)
+        editable.add(item)
+        const cursor = new Cursor(item, createRangeAtEnd(item))
+        cursor.setVisibleSelection()
+      })
+
+      afterEach(function () {
+        list.remove()
+      })
+
+      it('fires "indent" in a list item', function () {
+        const indent = on('indent', (element, cursor) => {
+          expect(element).toBe(item)
+          expect(cursor.isCursor).toBe(true)
+        })
+
+        item.dispatchEvent(new KeyboardEvent('keydown', {keyCode: key.tab}))
+        expect(indent.calls).toBe(1)
+      })
+
+      it('fires "outdent" in a list item with shift', function () {
+        const outdent = on('outdent', (element) => {
+          expect(element).toBe(item)
+        })
+
+        item.dispatchEvent(new KeyboardEvent('keydown', {keyCode: key.tab, shiftKey: true}))
+        expect(outdent.calls).toBe(1)
+      })
+
+      it('fires "outdent" on enter in an empty list item', function () {
+        item.innerHTML = ''
+        new Cursor(item, createRangeAtEnd(item)).setVisibleSelection()
+        const outdent = on('outdent', () => {})
+        const insert = on('insert', () => {})
+
+        item.dispatchEvent(new KeyboardEvent('keydown', {keyCode: key.enter}))
+        expect(outdent.calls).toBe(1)
+        expect(insert.calls).toBe(0)
+      })
+
+      it('fires "insert" on enter at the end of a list item', function () {
+        const insert = on('insert', () => {})
+        item.dispatchEvent(new KeyboardEvent('keydown', {keyCode: key.enter}))
+        expect(insert.calls).toBe(1)
+      })
+
+      it('does not fire "indent" outside of lists', function () {
+        elem.innerHTML = 'foo'
+        createCursor(createRangeAtEnd(elem))
+        const indent = on('indent', () => {})
+        elem.dispatchEvent(new KeyboardEvent('keydown', {keyCode: key.tab}))
+        expect(indent.calls).toBe(0)
+      })
+    })
+
     describe('input event:', function () {
       it('fires "change" event', function () {
         return new Promise((resolve) => {
@@ -606,5 +733,358 @@ describe('Dispatcher:', function () {
         })
       })
     })
+
+    describe('on paste files:', function () {
+
+      function clipboardWithFiles () {
+        const clipboardData = new DataTransfer()
+        clipboardData.files.push(new File(['png'], 'screenshot.png', {type: 'image/png'}))
+        return clipboardData
+      }
+
+      function cursorAt (offset) {
+        elem.innerHTML = 'foo'
+        const range = createRange()
+        range.setStart(elem.firstChild, offset)
+        range.collapse(true)
+        return createCursor(range)
+      }
+
+      it('fires "pasteFiles" with the pasted files', function () {
+        cursorAt(2)
+        const pasteFiles = on('pasteFiles', (element, files, cursor) => {
+          expect(element).toBe(elem)
+          expect(files[0].name).toBe('screenshot.png')
+          expect(cursor.isCursor).toBe(true)
+        })
+        elem.dispatchEvent(new ClipboardEvent('paste', {clipboardData: clipboardWithFiles(), bubbles: true}))
+        expect(pasteFiles.calls).toBe(1)
+      })
+
+      it('inserts the node a listener resolves to at the pasted position', async function () {
+        cursorAt(2)
+        on('pasteFiles', () => Promise.resolve(document.createElement('img')))
+        elem.dispatchEvent(new ClipboardEvent('paste', {clipboardData: clipboardWithFiles(), bubbles: true}))
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        expect(elem.innerHTML).toBe('fo<img>o')
+      })
+
+      it('reports the nodes if the pasted position was removed', async function () {
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+        cursorAt(2)
+        on('pasteFiles', () => Promise.resolve(document.createElement('img')))
+        elem.dispatchEvent(new ClipboardEvent('paste', {clipboardData: clipboardWithFiles(), bubbles: true}))
+        elem.innerHTML = 'bar'
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        expect(elem.innerHTML).toBe('bar')
+        expect(errorSpy).toHaveBeenCalled()
+        errorSpy.mockRestore()
+      })
+
+      it('keeps the pasted position when an earlier change is undone', async function () {
+        cursorAt(2)
+        let resolve
+        on('pasteFiles', () => new Promise((resolvePromise) => { resolve = resolvePromise }))
+        elem.dispatchEvent(new ClipboardEvent('paste', {clipboardData: clipboardWithFiles(), bubbles: true}))
+        elem.appendChild(document.createTextNode('bar'))
+        editable.dispatcher.notify('change', elem)
+        editable.history.undo()
+        resolve(document.createElement('img'))
+        await new Promise((resolveTimeout) => setTimeout(resolveTimeout, 0))
+        expect(elem.innerHTML).toBe('fo<img>o')
+      })
+
+      it('removes the position marker without a promise', function () {
+        cursorAt(2)
+        on('pasteFiles', () => {})
+        elem.dispatchEvent(new ClipboardEvent('paste', {clipboardData: clipboardWithFiles(), bubbles: true}))
+        expect(elem.innerHTML).toBe('foo')
+      })
+
+      it('pastes the text if the clipboard contains text and files', function () {
+        cursorAt(2)
+        const pasteFiles = on('pasteFiles', () => {})
+        const clipboardData = clipboardWithFiles()
+        clipboardData.setData('text/plain', 'bar')
+        elem.dispatchEvent(new ClipboardEvent('paste', {clipboardData, bubbles: true}))
+        expect(pasteFiles.calls).toBe(0)
+      })
+
+      it('fires "pasteFiles" for dropped files', function () {
+        cursorAt(2)
+        const pasteFiles = on('pasteFiles', () => {})
+        const evt = new Event('drop', {bubbles: true, cancelable: true})
+        Object.defineProperty(evt, 'dataTransfer', {value: clipboardWithFiles()})
+        elem.dispatchEvent(evt)
+        expect(pasteFiles.calls).toBe(1)
+        expect(evt.defaultPrevented).toBe(true)
+      })
+
+      it('passes the end of the block for dropped files without a drop position', function () {
+        elem.innerHTML = 'foo'
+        const range = createRange()
+        range.setStart(elem.firstChild, 0)
+        range.setEnd(elem.firstChild, 2)
+        createSelection(range)
+        let pastedCursor
+        on('pasteFiles', (block, files, cursor) => { pastedCursor = cursor })
+        const evt = new Event('drop', {bubbles: true, cancelable: true})
+        Object.defineProperty(evt, 'dataTransfer', {value: clipboardWithFiles()})
+        elem.dispatchEvent(evt)
+        expect(elem.innerHTML).toBe('foo')
+        expect(pastedCursor.isAtTextEnd()).toBe(true)
+      })
+    })
+
+    describe('on drag and drop:', function () {
+
+      afterEach(function () {
+        delete document.caretRangeFromPoint
+      })
+
+      function dragEvent (type, dataTransfer) {
+        const evt = new Event(type, {bubbles: true, cancelable: true})
+        Object.defineProperty(evt, 'dataTransfer', {value: dataTransfer})
+        return evt
+      }
+
+      // Resolve the drop position to a collapsed range.
+      function dropAt (node, offset) {
+        const range = createRange()
+        range.setStart(node, offset)
+        range.collapse(true)
+        document.caretRangeFromPoint = () => range
+      }
+
+      // Select text, start dragging it and return the DataTransfer.
+      function dragText (node, start, end) {
+        const range = createRange()
+        range.setStart(node, start)
+        range.setEnd(node, end)
+        createSelection(range)
+        const dataTransfer = new DataTransfer()
+        elem.dispatchEvent(dragEvent('dragstart', dataTransfer))
+        return dataTransfer
+      }
+
+      it('pastes dropped html through the paste pipeline', function () {
+        elem.innerHTML = 'foo'
+        dropAt(elem.firstChild, 1)
+        const dataTransfer = new DataTransfer()
+        dataTransfer.setData('text/html', '<script>baz</script><span style="color: red">bar</span>')
+        const evt = dragEvent('drop', dataTransfer)
+        elem.dispatchEvent(evt)
+        expect(evt.defaultPrevented).toBe(true)
+        expect(elem.innerHTML).toBe('fbaroo')
+      })
+
+      it('writes the dragged selection to the DataTransfer', function () {
+        elem.innerHTML = 'foo <strong>bar</strong>'
+        const dataTransfer = dragText(elem.firstChild, 0, 3)
+        expect(dataTransfer.getData('text/plain')).toBe('foo')
+        expect(dataTransfer.getData(blocksMimeType)).not.toBe('')
+      })
+
+      it('moves a selection within a block', function () {
+        elem.innerHTML = 'foo bar'
+        const dataTransfer = dragText(elem.firstChild, 0, 3)
+        dropAt(elem.firstChild, 7)
+        const change = on('change', () => {})
+        elem.dispatchEvent(dragEvent('drop', dataTransfer))
+        expect(elem.innerHTML).toBe(' barfoo')
+        expect(change.calls).toBe(2)
+      })
+
+      it('undoes a move in one step', function () {
+        elem.innerHTML = 'foo bar'
+        const dataTransfer = dragText(elem.firstChild, 0, 3)
+        dropAt(elem.firstChild, 7)
+        elem.dispatchEvent(dragEvent('drop', dataTransfer))
+        editable.history.undo()
+        expect(elem.innerHTML).toBe('foo bar')
+      })
+
+      it('moves a selection to another block', function () {
+        const other = document.createElement('div')
+        other.innerHTML = 'baz'
+        elem.after(other)
+        editable.add(other)
+        elem.innerHTML = 'foo bar'
+        const dataTransfer = dragText(elem.firstChild, 4, 7)
+        dropAt(other.firstChild, 3)
+        const changed = []
+        on('change', (block) => { changed.push(block) })
+        other.dispatchEvent(dragEvent('drop', dataTransfer))
+        expect(elem.innerHTML).toBe('foo ')
+        expect(other.innerHTML).toBe('bazbar')
+        expect(changed).toEqual([elem, other])
+        other.remove()
+      })
+
+      it('does not change the content when dropping a selection onto itself', function () {
+        elem.innerHTML = 'foo bar'
+        const dataTransfer = dragText(elem.firstChild, 0, 3)
+        dropAt(elem.firstChild, 1)
+        const change = on('change', () => {})
+        elem.dispatchEvent(dragEvent('drop', dataTransfer))
+        expect(elem.innerHTML).toBe('foo bar')
+        expect(change.calls).toBe(0)
+      })
+    })
+
+    describe('on composition:', function () {
+
+      beforeEach(function () {
+        elem.innerHTML = 'foo'
+        createCursor(createRangeAtEnd(elem))
+        elem.dispatchEvent(new CompositionEvent('compositionstart', {bubbles: true}))
+      })
+
+      it('tracks the composition on the editable', function () {
+        expect(editable.isComposing()).toBe(true)
+        elem.dispatchEvent(new CompositionEvent('compositionend', {bubbles: true}))
+        expect(editable.isComposing()).toBe(false)
+      })
+
+      it('tracks the composition per block', function () {
+        const other = document.createElement('div')
+        expect(editable.isComposing(elem)).toBe(true)
+        expect(editable.isComposing(other)).toBe(false)
+      })
+
+      it('ends the composition on blur', function () {
+        const compositionEnd = on('compositionEnd', () => {})
+        const change = on('change', () => {})
+        elem.dispatchEvent(new FocusEvent('blur'))
+        expect(editable.isComposing()).toBe(false)
+        expect(compositionEnd.calls).toBe(1)
+        expect(change.calls).toBe(1)
+      })
+
+      it('does not fire "change" during the composition', function () {
+        const change = on('change', () => {})
+        elem.dispatchEvent(new InputEvent('input', {data: 'k', isComposing: true, bubbles: true}))
+        expect(change.calls).toBe(0)
+      })
+
+      it('fires "compositionEnd" and "change" when the composition ends', function () {
+        const compositionEnd = on('compositionEnd', (element) => {
+          expect(element).toBe(elem)
+        })
+        const change = on('change', () => {})
+        elem.dispatchEvent(new CompositionEvent('compositionend', {bubbles: true}))
+        expect(compositionEnd.calls).toBe(1)
+        expect(change.calls).toBe(1)
+      })
+
+      it('leaves enter to the IME', function () {
+        const insert = on('insert', () => {})
+        const evt = new KeyboardEvent('keydown', {keyCode: key.enter, isComposing: true, cancelable: true})
+        elem.dispatchEvent(evt)
+        expect(insert.calls).toBe(0)
+        expect(evt.defaultPrevented).toBe(false)
+      })
+    })
+
+    describe('on beforeinput:', function () {
+
+      function beforeInput (inputType, options = {}) {
+        const evt = new InputEvent('beforeinput', {inputType, bubbles: true, cancelable: true, ...options})
+        elem.dispatchEvent(evt)
+        return evt
+      }
+
+      it('fires "split" for insertParagraph', function () {
+        elem.innerHTML = 'bar'
+        const range = createRange()
+        range.setStart(elem.firstChild, 2)
+        range.setEnd(elem.firstChild, 2)
+        createCursor(range)
+        const split = on('split', (element, before, after) => {
+          expect(before).toBe('ba')
+          expect(after).toBe('r')
+        })
+
+        const evt = beforeInput('insertParagraph')
+        expect(split.calls).toBe(1)
+        expect(evt.defaultPrevented).toBe(true)
+      })
+
+      it('fires "newline" for insertLineBreak', function () {
+        elem.innerHTML = 'foo'
+        createCursor(createRangeAtEnd(elem))
+        const newline = on('newline', () => {})
+
+        const evt = beforeInput('insertLineBreak')
+        expect(newline.calls).toBe(1)
+        expect(evt.defaultPrevented).toBe(true)
+      })
+
+      it('fires "merge" for deleteContentBackward at the beginning', function () {
+        elem.innerHTML = 'foo'
+        createCursor(createRangeAtBeginning(elem))
+        const merge = on('merge', (element, direction) => {
+          expect(direction).toBe('before')
+        })
+
+        const evt = beforeInput('deleteContentBackward')
+        expect(merge.calls).toBe(1)
+        expect(evt.defaultPrevented).toBe(true)
+      })
+
+      it('leaves deleteContentBackward within the text to the browser', function () {
+        elem.innerHTML = 'foo'
+        createCursor(createRangeAtEnd(elem))
+        const merge = on('merge', () => {})
+
+        const evt = beforeInput('deleteContentBackward')
+        expect(merge.calls).toBe(0)
+        expect(evt.defaultPrevented).toBe(false)
+      })
+
+      it('fires "merge" for deleteContentForward at the end', function () {
+        elem.innerHTML = 'foo'
+        createCursor(createRangeAtEnd(elem))
+        const merge = on('merge', (element, direction) => {
+          expect(direction).toBe('after')
+        })
+
+        beforeInput('deleteContentForward')
+        expect(merge.calls).toBe(1)
+      })
+
+      it('fires "toggleBold" for formatBold', function () {
+        elem.innerHTML = 'foo'
+        createSelection(createFullRange(elem))
+        const toggleBold = on('toggleBold', () => {})
+
+        const evt = beforeInput('formatBold')
+        expect(toggleBold.calls).toBe(1)
+        expect(evt.defaultPrevented).toBe(true)
+      })
+
+      it('fires "undo" for historyUndo', function () {
+        const undo = on('undo', () => {})
+        const evt = beforeInput('historyUndo')
+        expect(undo.calls).toBe(1)
+        expect(evt.defaultPrevented).toBe(true)
+      })
+
+      it('ignores events that cannot be cancelled', function () {
+        elem.innerHTML = 'foo'
+        createCursor(createRangeAtEnd(elem))
+        const newline = on('newline', () => {})
+
+        beforeInput('insertLineBreak', {cancelable: false})
+        expect(newline.calls).toBe(0)
+      })
+
+      it('leaves text insertion to the browser', function () {
+        elem.innerHTML = 'foo'
+        createCursor(createRangeAtEnd(elem))
+        const evt = beforeInput('insertText', {data: 'a'})
+        expect(evt.defaultPrevented).toBe(false)
+      })
+    })
   })
 })
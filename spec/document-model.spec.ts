@@ -0,0 +1,159 @@
+import {getDocument, setDocument} from '../src/document-model.js'
+import {extractContent} from '../src/content.js'
+import config from '../src/config.js'
+
+describe('Document Model', function () {
+  let host
+
+  beforeEach(function () {
+    host = document.createElement('div')
+  })
+
+  function documentOf (html: string) {
+    host.innerHTML = html
+    return getDocument(host)
+  }
+
+  function roundtrip (html: string) {
+    host.innerHTML = html
+    const doc = getDocument(host)
+    const other = document.createElement('div')
+    setDocument(other, JSON.parse(JSON.stringify(doc)))
+    return extractContent(other)
+  }
+
+  describe('getDocument()', function () {
+
+    it('gets the text of a block', function () {
+      expect(documentOf('foo bar')).toEqual({text: 'foo bar', marks: []})
+    })
+
+    it('gets a bold mark', function () {
+      expect(documentOf('foo <strong>bar</strong>')).toEqual({
+        text: 'foo bar',
+        marks: [{type: 'bold', start: 4, end: 7}]
+      })
+    })
+
+    it('gets a link with its attributes', function () {
+      expect(documentOf('<a href="https://livingdocs.io" target="_blank">foo</a>')).toEqual({
+        text: 'foo',
+        marks: [{type: 'link', start: 0, end: 3, attrs: {href: 'https://livingdocs.io', target: '_blank'}}]
+      })
+    })
+
+    it('gets nested marks', function () {
+      expect(documentOf('<strong>a<em>b</em></strong>c').marks).toEqual([
+        {type: 'bold', start: 0, end: 2},
+        {type: 'italic', start: 1, end: 2}
+      ])
+    })
+
+    it('converts a <br> into a newline', function () {
+      expect(documentOf('foo<br><u>bar</u>')).toEqual({
+        text: 'foo\nbar',
+        marks: [{type: 'underline', start: 4, end: 7}]
+      })
+    })
+
+    it('uses the tag name for unconfigured elements', function () {
+      expect(documentOf('a<sup class="x">2</sup>').marks).toEqual([
+        {type: 'sup', start: 1, end: 2, attrs: {class: 'x'}}
+      ])
+    })
+
+    it('ignores editable internals', function () {
+      expect(documentOf('foo<span data-editable="remove">x</span>')).toEqual({text: 'foo', marks: []})
+    })
+  })
+
+  describe('setDocument()', function () {
+
+    it('sets text and marks', function () {
+      setDocument(host, {text: 'foo bar', marks: [{type: 'bold', start: 4, end: 7}]})
+      expect(host.innerHTML).toBe('foo <strong>bar</strong>')
+    })
+
+    it('wraps overlapping marks', function () {
+      setDocument(host, {text: 'abc', marks: [
+        {type: 'italic', start: 1, end: 3},
+        {type: 'bold', start: 0, end: 2}
+      ]})
+      expect(host.innerHTML).toBe('<strong>a<em>b</em></strong><em>c</em>')
+    })
+
+    it('uses the configured markup', function () {
+      const boldMarkup = config.boldMarkup
+      config.boldMarkup = {type: 'tag', name: 'b', attribs: {class: 'bold'}, trim: true}
+      try {
+        setDocument(host, {text: 'foo', marks: [{type: 'bold', start: 0, end: 3}]})
+      } finally {
+        config.boldMarkup = boldMarkup
+      }
+      expect(host.innerHTML).toBe('<b class="bold">foo</b>')
+    })
+
+    it('ignores marks outside of the text', function () {
+      const logErrors = config.logErrors
+      config.logErrors = false
+      try {
+        setDocument(host, {text: 'foo', marks: [{type: 'bold', start: 1, end: 5}]})
+      } finally {
+        config.logErrors = logErrors
+      }
+      expect(host.innerHTML).toBe('foo')
+    })
+
+    describe('with unsafe marks', function () {
+      let logErrors
+
+      beforeEach(function () {
+        logErrors = config.logErrors
+        config.logErrors = false
+      })
+
+      afterEach(function () {
+        config.logErrors = logErrors
+      })
+
+      it('skips unknown mark types', function () {
+        setDocument(host, {text: 'foo', marks: [
+          {type: 'script', start: 0, end: 3},
+          {type: 'b c', start: 0, end: 3}
+        ]})
+        expect(host.innerHTML).toBe('foo')
+      })
+
+      it('keeps only allowed attributes', function () {
+        setDocument(host, {text: 'foo', marks: [
+          {type: 'link', start: 0, end: 3, attrs: {href: 'https://livingdocs.io', onclick: 'alert(1)', style: 'color: red'}}
+        ]})
+        expect(host.innerHTML).toBe('<a href="https://livingdocs.io">foo</a>')
+      })
+
+      it('removes script urls', function () {
+        setDocument(host, {text: 'foo', marks: [
+          {type: 'link', start: 0, end: 3, attrs: {href: ' java\tscript:alert(1)'}}
+        ]})
+        expect(host.innerHTML).toBe('<a>foo</a>')
+      })
+    })
+
+    it('escapes the text', function () {
+      setDocument(host, {text: '<b>&', marks: []})
+      expect(host.innerHTML).toBe('&lt;b&gt;&amp;')
+    })
+  })
+
+  describe('roundtrip', function () {
+
+    it('keeps formatting', function () {
+      const html = 'a <strong>b <em>c</em></strong> <a href="https://livingdocs.io">d</a>'
+      expect(roundtrip(html)).toBe(html)
+    })
+
+    it('keeps newlines', function () {
+      expect(roundtrip('foo<br><strong>bar<br>baz</strong>')).toBe('foo<br><strong>bar<br>baz</strong>')
+    })
+  })
+})
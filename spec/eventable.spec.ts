@@ -201,5 +201,17 @@ describe('eventable', function () {
 
       expect(results).toEqual([1, 2, 1, 2])
     })
+
+    it('returns the return values of the listeners', function () {
+      obj.on('bar', () => 'a')
+      obj.on('bar', () => 'b')
+      expect(obj.notify({}, 'bar')).toEqual(['b', 'a'])
+      expect(obj.notify({}, 'baz')).toEqual([])
+    })
+
+    it('stops after a listener returns false', function () {
+      obj.on('foo', () => false)
+      expect(obj.notify({}, 'foo')).toEqual([false])
+    })
   })
 })
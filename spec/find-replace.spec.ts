@@ -0,0 +1,164 @@
+import {Editable} from '../src/features.js'
+import config from '../src/config.js'
+import {createElement} from '../src/util/dom.js'
+
+describe('Find and replace', function () {
+  let first, second, editable
+
+  beforeEach(function () {
+    first = createElement('<div>Foo bar foo</div>')
+    second = createElement('<div>a <strong>fo</strong>o</div>')
+    document.body.appendChild(first)
+    document.body.appendChild(second)
+    editable = new Editable()
+    editable.add([first, second])
+  })
+
+  afterEach(function () {
+    editable.unload()
+    first.remove()
+    second.remove()
+  })
+
+  function selectedText () {
+    return window.getSelection().toString()
+  }
+
+  describe('find()', function () {
+
+    it('highlights the matches in all blocks', function () {
+      const search = editable.find('foo')
+      expect(search.matches.map(({host, startIndex}) => [host, startIndex])).toEqual([
+        [first, 0],
+        [first, 8],
+        [second, 2]
+      ])
+      expect(first.querySelectorAll('[data-highlight="search"]').length).toBe(2)
+      expect(editable.getContent(first)).toBe('Foo bar foo')
+    })
+
+    it('passes the search options', function () {
+      expect(editable.find('foo', {caseSensitive: true}).matches.length).toBe(2)
+    })
+
+    it('replaces the highlights of the previous search', function () {
+      editable.find('foo')
+      editable.find('bar')
+      expect(first.querySelectorAll('[data-highlight="search"]').length).toBe(1)
+    })
+
+    it('finds nothing for an invalid regular expression', function () {
+      const logErrors = config.logErrors
+      config.logErrors = false
+      expect(editable.find('(', {regex: true}).matches).toEqual([])
+      config.logErrors = logErrors
+    })
+  })
+
+  describe('next() and previous()', function () {
+
+    it('selects the matches in order', function () {
+      const search = editable.find('foo')
+      expect(search.next().startIndex).toBe(0)
+      expect(selectedText()).toBe('Foo')
+      expect(search.next().startIndex).toBe(8)
+      expect(search.next().host).toBe(second)
+      expect(selectedText()).toBe('foo')
+      expect(search.next().startIndex).toBe(0)
+    })
+
+    it('continues with the last match before the first one', function () {
+      const search = editable.find('foo')
+      expect(search.previous().host).toBe(second)
+      expect(search.previous().startIndex).toBe(8)
+    })
+
+    it('marks the current match', function () {
+      const search = editable.find('foo')
+      search.next()
+      search.next()
+      const current = first.querySelectorAll('.highlight-search-current')
+      expect(current.length).toBe(1)
+      expect(current[0].textContent).toBe('foo')
+    })
+  })
+
+  describe('replace()', function () {
+
+    it('replaces the current match and selects the next one', function () {
+      const changes = []
+      editable.on('change', (host) => changes.push(host))
+      const search = editable.find('foo')
+      search.next()
+      search.next()
+      expect(search.replace('baz')).toBe(true)
+      expect(editable.getContent(first)).toBe('Foo bar baz')
+      expect(changes).toEqual([first])
+      expect(search.current.host).toBe(second)
+    })
+
+    it('keeps the markup around the match', function () {
+      const search = editable.find('foo')
+      search.select(2)
+      search.replace('xyz')
+      expect(editable.getContent(second)).toBe('a <strong>xyz</strong>')
+    })
+
+    it('replaces capture groups of a regular expression', function () {
+      const search = editable.find('(b)ar', {regex: true})
+      search.replace('$1oo')
+      expect(editable.getContent(first)).toBe('Foo boo foo')
+    })
+
+    it('replaces capture groups of a match depending on its context', function () {
+      const search = editable.find('(?<= )(b)ar|^(F)oo', {regex: true})
+      search.select(1)
+      search.replace('[$1$2]')
+      expect(editable.getContent(first)).toBe('Foo [b] foo')
+    })
+
+    it('is undone in one step', function () {
+      const search = editable.find('foo')
+      search.replace('baz')
+      editable.history.undo()
+      expect(editable.getContent(first)).toBe('Foo bar foo')
+    })
+  })
+
+  describe('replaceAll()', function () {
+
+    it('replaces all matches', function () {
+      const changes = []
+      editable.on('change', (host) => changes.push(host))
+      const count = editable.find('foo').replaceAll('x')
+      expect(count).toBe(3)
+      expect(editable.getContent(first)).toBe('x bar x')
+      expect(editable.getContent(second)).toBe('a <strong>x</strong>')
+      expect(changes).toEqual([first, second])
+    })
+
+    it('is undone in one step', function () {
+      editable.find('foo').replaceAll('x')
+      editable.history.undo()
+      expect(editable.getContent(first)).toBe('Foo bar foo')
+      expect(editable.getContent(second)).toBe('a <strong>fo</strong>o')
+      expect(editable.history.canUndo()).toBe(false)
+    })
+
+    it('removes empty markup', function () {
+      editable.find('foo').replaceAll('')
+      expect(second.innerHTML).toBe('a ')
+    })
+  })
+
+  describe('clear()', function () {
+
+    it('removes the highlights', function () {
+      const search = editable.find('foo')
+      search.clear()
+      expect(first.innerHTML).toBe('Foo bar foo')
+      expect(second.innerHTML).toBe('a <strong>fo</strong>o')
+      expect(search.matches).toEqual([])
+    })
+  })
+})
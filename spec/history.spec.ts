@@ -0,0 +1,179 @@
+import {createRange} from '../src/util/dom.js'
+import Cursor from '../src/cursor.js'
+import Keyboard from '../src/keyboard.js'
+import {Editable} from '../src/core.js'
+const {key} = Keyboard
+
+describe('History', function () {
+  let editable, container, elem
+
+  function setCursor (node, offset) {
+    const range = createRange()
+    range.setStart(node, offset)
+    range.collapse(true)
+    const cursor = new Cursor(node.nodeType === 3 ? node.parentNode : node, range)
+    cursor.setVisibleSelection()
+    return cursor
+  }
+
+  function pressEnter () {
+    elem.dispatchEvent(new KeyboardEvent('keydown', {keyCode: key.enter, bubbles: true}))
+  }
+
+  function pressUndo (target, shiftKey = false) {
+    target.dispatchEvent(new KeyboardEvent('keydown', {key: 'z', ctrlKey: true, shiftKey, bubbles: true}))
+  }
+
+  beforeEach(function () {
+    container = document.createElement('div')
+    container.innerHTML = '<p>foobar</p>'
+    document.body.appendChild(container)
+    elem = container.firstChild
+    editable = new Editable()
+    editable.add(elem)
+    elem.focus()
+  })
+
+  afterEach(function () {
+    editable.unload()
+    container.remove()
+  })
+
+  describe('transact()', function () {
+
+    it('records a change and reverts it on undo', function () {
+      editable.history.transact([elem], () => { elem.innerHTML = 'changed' })
+      expect(editable.history.canUndo()).toBe(true)
+
+      editable.history.undo()
+      expect(elem.innerHTML).toBe('foobar')
+      expect(editable.history.canRedo()).toBe(true)
+    })
+
+    it('reapplies a change on redo', function () {
+      editable.history.transact([elem], () => { elem.innerHTML = 'changed' })
+      editable.history.undo()
+      editable.history.redo()
+      expect(elem.innerHTML).toBe('changed')
+    })
+
+    it('does not record a transaction without changes', function () {
+      editable.history.transact([elem], () => {})
+      expect(editable.history.canUndo()).toBe(false)
+    })
+
+    it('restores removed blocks', function () {
+      const next = document.createElement('p')
+      next.innerHTML = 'baz'
+      container.appendChild(next)
+
+      editable.history.transact([elem, next], () => { next.remove() })
+      expect(container.children.length).toBe(1)
+
+      editable.history.undo()
+      expect(container.children.length).toBe(2)
+      expect(container.lastChild).toBe(next)
+    })
+
+    it('fires a change event for the restored blocks', function () {
+      let changes = 0
+      editable.history.transact([elem], () => { elem.innerHTML = 'changed' })
+      editable.on('change', () => { changes += 1 })
+      editable.history.undo()
+      expect(changes).toBe(1)
+    })
+
+    it('clears the redo stack on a new transaction', function () {
+      editable.history.transact([elem], () => { elem.innerHTML = 'changed' })
+      editable.history.undo()
+      editable.history.transact([elem], () => { elem.innerHTML = 'other' })
+      expect(editable.history.canRedo()).toBe(false)
+    })
+  })
+
+  describe('with the default behavior', function () {
+
+    it('undoes a split and restores the cursor', function () {
+      setCursor(elem.firstChild, 3)
+      pressEnter()
+      expect(container.innerHTML).toContain('foo</p>')
+      expect(container.children.length).toBe(2)
+
+      pressUndo(elem)
+      expect(container.children.length).toBe(1)
+      expect(container.firstChild).toBe(elem)
+      expect(editable.getContent(elem)).toBe('foobar')
+
+      const cursor = editable.getSelection()
+      expect(cursor.isCursor).toBe(true)
+      expect(cursor.textBefore()).toBe('foo')
+    })
+
+    it('redoes a split with ctrl+shift+z', function () {
+      setCursor(elem.firstChild, 3)
+      pressEnter()
+      pressUndo(elem)
+      pressUndo(elem, true)
+      expect(container.children.length).toBe(2)
+      expect(editable.getContent(elem)).toBe('bar')
+    })
+
+    it('undoes a merge', function () {
+      const next = document.createElement('p')
+      next.innerHTML = 'baz'
+      container.appendChild(next)
+      editable.add(next)
+
+      setCursor(next.firstChild, 0)
+      next.dispatchEvent(new KeyboardEvent('keydown', {keyCode: key.backspace, bubbles: true}))
+      expect(container.children.length).toBe(1)
+      expect(editable.getContent(next)).toBe('foobarbaz')
+
+      pressUndo(next)
+      expect(container.children.length).toBe(2)
+      expect(container.firstChild).toBe(elem)
+      expect(editable.getContent(elem)).toBe('foobar')
+      expect(editable.getContent(next)).toBe('baz')
+    })
+
+    it('groups consecutive typing into one transaction', function () {
+      setCursor(elem.firstChild, 6)
+      elem.firstChild.appendData('a')
+      editable.dispatcher.notify('change', elem)
+      elem.firstChild.appendData('b')
+      editable.dispatcher.notify('change', elem)
+
+      expect(editable.history.undoStack.length).toBe(1)
+      editable.history.undo()
+      expect(editable.getContent(elem)).toBe('foobar')
+    })
+
+    it('records typing without changing the DOM', function () {
+      setCursor(elem.firstChild, 3)
+      const textNode = elem.firstChild
+      const observer = new MutationObserver(() => {})
+      observer.observe(elem, {childList: true, subtree: true})
+      editable.dispatcher.notify('focus', elem)
+      textNode.insertData(3, 'x')
+      observer.takeRecords()
+      editable.dispatcher.notify('change', elem)
+
+      expect(observer.takeRecords()).toEqual([])
+      expect(elem.firstChild).toBe(textNode)
+      observer.disconnect()
+    })
+
+    it('restores the cursor of typing on undo', function () {
+      setCursor(elem.firstChild, 3)
+      editable.dispatcher.notify('focus', elem)
+      elem.firstChild.insertData(3, 'x')
+      setCursor(elem.firstChild, 4)
+      editable.dispatcher.notify('change', elem)
+
+      editable.history.undo()
+      const cursor = editable.getSelection()
+      expect(editable.getContent(elem)).toBe('foobar')
+      expect(cursor.textBefore()).toBe('foo')
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import {createRange} from '../src/util/dom.js'
+import Cursor from '../src/cursor.js'
+import {Editable} from '../src/core.js'
+import {applyInputRules, markdown, replaceMatch, smartQuotes, typography} from '../src/input-rules.js'
+
+describe('Input Rules', function () {
+  let host
+
+  beforeEach(function () {
+    host = document.createElement('div')
+    document.body.appendChild(host)
+  })
+
+  afterEach(function () {
+    host.remove()
+  })
+
+  function cursorAtEnd () {
+    const range = createRange()
+    range.selectNodeContents(host)
+    range.collapse(false)
+    return new Cursor(host, range)
+  }
+
+  function apply (html, rules) {
+    host.innerHTML = html
+    return applyInputRules(host, rules, cursorAtEnd())
+  }
+
+  describe('applyInputRules()', function () {
+
+    it('does nothing without a matching rule', function () {
+      expect(apply('foo', typography)).toBe(false)
+      expect(host.innerHTML).toBe('foo')
+    })
+
+    it('replaces -- with an en dash', function () {
+      expect(apply('a --', typography)).toBe(true)
+      expect(host.innerHTML).toBe('a –')
+    })
+
+    it('replaces ... with an ellipsis', function () {
+      apply('wait...', typography)
+      expect(host.innerHTML).toBe('wait…')
+    })
+
+    it('replaces (c) with a copyright sign', function () {
+      apply('(c)', typography)
+      expect(host.innerHTML).toBe('©')
+    })
+
+    it('only matches the text before the cursor', function () {
+      host.innerHTML = 'a -- b'
+      const range = createRange()
+      range.setStart(host.firstChild, 6)
+      range.collapse(true)
+      expect(applyInputRules(host, typography, new Cursor(host, range))).toBe(false)
+    })
+
+    it('converts **bold**', function () {
+      apply('a **bold**', markdown)
+      expect(host.innerHTML).toBe('a <strong>bold</strong>')
+    })
+
+    it('keeps the inline markup of a mark', function () {
+      apply('a **<em>b</em>c**', markdown)
+      expect(host.innerHTML).toBe('a <strong><em>b</em>c</strong>')
+    })
+
+    it('converts _em_', function () {
+      apply('an _em_', markdown)
+      expect(host.innerHTML).toBe('an <em>em</em>')
+    })
+
+    it('does not convert underscores within words', function () {
+      expect(apply('snake_case_', markdown)).toBe(false)
+    })
+
+    it('converts `code`', function () {
+      apply('`x`', markdown)
+      expect(host.innerHTML).toBe('<code>x</code>')
+    })
+
+    it('matches text across elements', function () {
+      apply('<em>a -</em>-', typography)
+      expect(host.innerHTML).toBe('<em>a </em>–')
+    })
+
+    it('places the cursor after the replacement', function () {
+      apply('a **b**', markdown)
+      const selection = window.getSelection()
+      expect(selection.anchorNode).toBe(host)
+      expect(selection.anchorOffset).toBe(2)
+    })
+
+    it('applies a custom rule', function () {
+      const rules = [{match: /->$/, handler: (context) => replaceMatch(context, '→')}]
+      apply('a ->', rules)
+      expect(host.innerHTML).toBe('a →')
+    })
+
+    it('replaces quotes with the quotes of the language', function () {
+      host.setAttribute('lang', 'de')
+      apply('"', smartQuotes)
+      expect(host.textContent).toBe('„')
+      apply('„a"', smartQuotes)
+      expect(host.textContent).toBe('„a“')
+    })
+
+    it('keeps apostrophes', function () {
+      host.setAttribute('lang', 'en')
+      expect(apply("don'", smartQuotes)).toBe(false)
+    })
+
+    it('tries the next rule if a handler returns false', function () {
+      const rules = [{match: /--$/, handler: () => false}, ...typography]
+      expect(apply('--', rules)).toBe(true)
+      expect(host.innerHTML).toBe('–')
+    })
+  })
+
+  describe('with an editable', function () {
+    let editable
+
+    beforeEach(function () {
+      host.innerHTML = '**bold*'
+      editable = new Editable({inputRules: markdown})
+      editable.add(host)
+      host.focus()
+    })
+
+    afterEach(function () {
+      editable.unload()
+    })
+
+    function type (char) {
+      host.lastChild.appendData(char)
+      cursorAtEnd().setVisibleSelection()
+      host.dispatchEvent(new InputEvent('input', {data: char, bubbles: true}))
+    }
+
+    it('applies the rules on input', function () {
+      type('*')
+      expect(editable.getContent(host)).toBe('<strong>bold</strong>')
+    })
+
+    it('applies smart quotes with the smartQuotes config', function () {
+      editable.unload()
+      host.innerHTML = 'a '
+      host.setAttribute('lang', 'en')
+      editable = new Editable({smartQuotes: true})
+      editable.add(host)
+      type('"')
+      expect(editable.getContent(host)).toBe('a “')
+      editable.history.undo()
+      expect(editable.getContent(host)).toBe('a "')
+    })
+
+    it('fires a single change event', function () {
+      let changes = 0
+      editable.on('change', () => { changes++ })
+      type('*')
+      expect(changes).toBe(1)
+    })
+
+    it('reverts the rule with a single undo', function () {
+      type('*')
+      editable.history.undo()
+      expect(editable.getContent(host)).toBe('**bold**')
+      editable.history.undo()
+      expect(editable.getContent(host)).toBe('**bold*')
+    })
+  })
+})
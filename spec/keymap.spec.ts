@@ -0,0 +1,217 @@
+import {createRange} from '../src/util/dom.js'
+import Keymap from '../src/keymap.js'
+import Selection from '../src/selection.js'
+import {Editable} from '../src/core.js'
+import config from '../src/config.js'
+
+describe('Keymap', function () {
+
+  describe('handleKeydown()', function () {
+    let keymap, block, called
+
+    beforeEach(function () {
+      keymap = new Keymap()
+      keymap.mac = false
+      block = document.createElement('div')
+      called = 0
+    })
+
+    function keydown (init) {
+      const event = new KeyboardEvent('keydown', {cancelable: true, ...init})
+      return {event, handled: keymap.handleKeydown(event, block)}
+    }
+
+    it('runs a handler for a matching key', function () {
+      keymap.add({'Mod-k': () => { called++ }})
+      const {event, handled} = keydown({key: 'k', ctrlKey: true})
+      expect(handled).toBe(true)
+      expect(called).toBe(1)
+      expect(event.defaultPrevented).toBe(true)
+    })
+
+    it('resolves Mod to the meta key on macOS', function () {
+      keymap.mac = true
+      keymap.add({'Mod-k': () => { called++ }})
+      expect(keydown({key: 'k', ctrlKey: true}).handled).toBe(false)
+      expect(keydown({key: 'k', metaKey: true}).handled).toBe(true)
+      expect(called).toBe(1)
+    })
+
+    it('requires the exact modifiers', function () {
+      keymap.add({'Mod-k': () => { called++ }})
+      expect(keydown({key: 'k'}).handled).toBe(false)
+      expect(keydown({key: 'k', ctrlKey: true, altKey: true}).handled).toBe(false)
+      expect(keydown({key: 'K', ctrlKey: true, shiftKey: true}).handled).toBe(false)
+      expect(called).toBe(0)
+    })
+
+    it('matches shifted letters', function () {
+      keymap.add({'Mod-Shift-z': () => { called++ }})
+      expect(keydown({key: 'Z', ctrlKey: true, shiftKey: true}).handled).toBe(true)
+    })
+
+    it('matches event.code', function () {
+      keymap.add({'Alt-k': () => { called++ }})
+      expect(keydown({key: '˚', code: 'KeyK', altKey: true}).handled).toBe(true)
+    })
+
+    it('matches the key of the layout instead of event.code', function () {
+      keymap.add({'Mod-z': () => { called++ }, 'Mod-y': () => { called += 10 }, 'Mod-q': () => { called += 100 }})
+      // Ctrl-y on a German (QWERTZ) keyboard
+      keydown({key: 'y', code: 'KeyZ', ctrlKey: true})
+      expect(called).toBe(10)
+      // Ctrl-a on a French (AZERTY) keyboard
+      expect(keydown({key: 'a', code: 'KeyQ', ctrlKey: true}).handled).toBe(false)
+      expect(called).toBe(10)
+    })
+
+    it('matches named keys and aliases', function () {
+      keymap.add({'Alt-ArrowUp': () => { called++ }, 'Alt-Down': () => { called++ }})
+      keydown({key: 'ArrowUp', altKey: true})
+      keydown({key: 'ArrowDown', altKey: true})
+      expect(called).toBe(2)
+    })
+
+    it('falls back to the keyCode', function () {
+      keymap.add({'Mod-u': () => { called++ }})
+      expect(keydown({keyCode: 85, ctrlKey: true}).handled).toBe(true)
+    })
+
+    it('lets later bindings take precedence', function () {
+      keymap.add({'Mod-k': () => { called += 1 }})
+      keymap.add({'Mod-k': () => { called += 10 }})
+      keydown({key: 'k', ctrlKey: true})
+      expect(called).toBe(10)
+    })
+
+    it('passes the event on if a handler returns false', function () {
+      keymap.add({'Mod-k': () => { called += 1 }})
+      keymap.add({'Mod-k': () => false})
+      keydown({key: 'k', ctrlKey: true})
+      expect(called).toBe(1)
+    })
+
+    it('scopes bindings to a selector', function () {
+      keymap.add({'Mod-k': () => { called++ }}, {selector: '.headline'})
+      expect(keydown({key: 'k', ctrlKey: true}).handled).toBe(false)
+      block.classList.add('headline')
+      expect(keydown({key: 'k', ctrlKey: true}).handled).toBe(true)
+    })
+
+    it('removes bindings again', function () {
+      const remove = keymap.add({'Mod-k': () => { called++ }})
+      remove()
+      expect(keydown({key: 'k', ctrlKey: true}).handled).toBe(false)
+    })
+
+    it('runs named commands', function () {
+      keymap.addCommand('link', function (event, target) {
+        expect(this).toBe(block)
+        expect(target).toBe(block)
+        called++
+      })
+      keymap.add({'Mod-k': 'link'})
+      keydown({key: 'k', ctrlKey: true})
+      expect(called).toBe(1)
+    })
+
+    it('leaves a key turned off with null to the browser', function () {
+      keymap.add({'Mod-k': () => { called++ }})
+      keymap.add({'Mod-k': null})
+      const {event, handled} = keydown({key: 'k', ctrlKey: true})
+      expect(handled).toBe(false)
+      expect(event.defaultPrevented).toBe(false)
+      expect(called).toBe(0)
+    })
+
+    it('ignores invalid key combinations', function () {
+      const logErrors = config.logErrors
+      config.logErrors = false
+      try {
+        keymap.add({'Hyper-k': () => { called++ }, 'Mod-': () => { called++ }, 'Mod-k': 'unknown'})
+        expect(keymap.bindings.length).toBe(1)
+        expect(keydown({key: 'k', ctrlKey: true}).handled).toBe(false)
+      } finally {
+        config.logErrors = logErrors
+      }
+    })
+  })
+
+  describe('editable.keymap()', function () {
+    let editable, elem
+
+    beforeEach(function () {
+      elem = document.createElement('div')
+      elem.innerHTML = 'foo'
+      document.body.appendChild(elem)
+      editable = new Editable()
+      editable.add(elem)
+      editable.dispatcher.keymap.mac = false
+      elem.focus()
+    })
+
+    afterEach(function () {
+      editable.unload()
+      elem.remove()
+    })
+
+    function selectAll () {
+      const range = createRange()
+      range.selectNodeContents(elem)
+      const selection = new Selection(elem, range)
+      selection.setVisibleSelection()
+    }
+
+    function keydown (init) {
+      elem.dispatchEvent(new KeyboardEvent('keydown', {bubbles: true, cancelable: true, ...init}))
+    }
+
+    it('toggles underline', function () {
+      editable.keymap({'Mod-u': 'toggleUnderline'})
+      selectAll()
+      keydown({key: 'u', ctrlKey: true})
+      expect(editable.getContent(elem)).toBe('<u>foo</u>')
+    })
+
+    it('notifies the move event', function () {
+      let direction
+      editable.on('move', (element, selection, dir) => { direction = dir })
+      editable.keymap({'Alt-ArrowUp': 'moveBlockUp'})
+      selectAll()
+      keydown({key: 'ArrowUp', altKey: true})
+      expect(direction).toBe('before')
+    })
+
+    it('toggles bold with the default binding', function () {
+      selectAll()
+      keydown({key: 'b', ctrlKey: true})
+      expect(editable.getContent(elem)).toBe('<strong>foo</strong>')
+    })
+
+    it('turns a default binding off', function () {
+      editable.keymap({'Mod-b': null})
+      selectAll()
+      keydown({key: 'b', ctrlKey: true})
+      expect(editable.getContent(elem)).toBe('foo')
+    })
+
+    it('notifies undo and redo', function () {
+      const events = []
+      editable.on('undo', () => { events.push('undo') })
+      editable.on('redo', () => { events.push('redo') })
+      keydown({key: 'z', ctrlKey: true})
+      keydown({key: 'Z', ctrlKey: true, shiftKey: true})
+      keydown({key: 'y', ctrlKey: true})
+      expect(events).toEqual(['undo', 'redo', 'redo'])
+    })
+
+    it('runs before the built-in shortcuts', function () {
+      let called = 0
+      editable.keymap({'Mod-b': () => { called++ }})
+      selectAll()
+      keydown({key: 'b', keyCode: 66, ctrlKey: true})
+      expect(called).toBe(1)
+      expect(editable.getContent(elem)).toBe('foo')
+    })
+  })
+})
@@ -0,0 +1,296 @@
+import {Editable} from '../src/core.js'
+import Cursor from '../src/cursor.js'
+import {createElement, createRange} from '../src/util/dom.js'
+import * as list from '../src/list.js'
+import {extractContent} from '../src/content.js'
+
+describe('List', function () {
+  let root
+
+  function setup (html) {
+    root = createElement(html)
+    return root
+  }
+
+  function item (text) {
+    return Array.from(root.querySelectorAll('li')).find((li: HTMLElement) => li.textContent === text) as HTMLElement
+  }
+
+  describe('getLevel()', function () {
+
+    it('returns the nesting level of an item', function () {
+      setup('<ul><li>a</li><ul><li>b</li><ol><li>c</li></ol></ul></ul>')
+      expect(list.getLevel(item('a'))).toBe(0)
+      expect(list.getLevel(item('b'))).toBe(1)
+      expect(list.getLevel(item('c'))).toBe(2)
+    })
+  })
+
+  describe('getRootList()', function () {
+
+    it('returns the outermost list', function () {
+      setup('<ul><li>a</li><ul><li>b</li></ul></ul>')
+      expect(list.getRootList(item('b'))).toBe(root)
+    })
+
+    it('returns undefined outside of a list', function () {
+      expect(list.getRootList(document.createElement('li'))).toBe(undefined)
+    })
+  })
+
+  describe('isEmptyItem()', function () {
+
+    it('ignores zero width spaces', function () {
+      expect(list.isEmptyItem(createElement('<li>\uFEFF</li>'))).toBe(true)
+      expect(list.isEmptyItem(createElement('<li>a</li>'))).toBe(false)
+    })
+  })
+
+  describe('indent()', function () {
+
+    it('nests an item in a new list', function () {
+      setup('<ol><li>a</li><li>b</li><li>c</li></ol>')
+      expect(list.indent(item('b'))).toBe(true)
+      expect(root.outerHTML).toBe('<ol><li>a</li><ol><li>b</li></ol><li>c</li></ol>')
+    })
+
+    it('appends an item to the nested list before it', function () {
+      setup('<ul><li>a</li><ul><li>b</li></ul><li>c</li></ul>')
+      list.indent(item('c'))
+      expect(root.outerHTML).toBe('<ul><li>a</li><ul><li>b</li><li>c</li></ul></ul>')
+    })
+
+    it('moves the nested items along', function () {
+      setup('<ul><li>a</li><li>b</li><ul><li>c</li></ul></ul>')
+      list.indent(item('b'))
+      expect(root.outerHTML).toBe('<ul><li>a</li><ul><li>b</li><ul><li>c</li></ul></ul></ul>')
+    })
+
+    it('does not indent the first item', function () {
+      setup('<ul><li>a</li></ul>')
+      expect(list.indent(item('a'))).toBe(false)
+      expect(root.outerHTML).toBe('<ul><li>a</li></ul>')
+    })
+  })
+
+  describe('outdent()', function () {
+
+    it('moves an item one level up', function () {
+      setup('<ul><li>a</li><ul><li>b</li></ul><li>c</li></ul>')
+      expect(list.outdent(item('b'))).toBe(true)
+      expect(root.outerHTML).toBe('<ul><li>a</li><li>b</li><li>c</li></ul>')
+    })
+
+    it('nests the following items into the item', function () {
+      setup('<ul><li>a</li><ul><li>b</li><li>c</li></ul></ul>')
+      list.outdent(item('b'))
+      expect(root.outerHTML).toBe('<ul><li>a</li><li>b</li><ul><li>c</li></ul></ul>')
+    })
+
+    it('keeps the level of the nested items', function () {
+      setup('<ul><li>a</li><ul><li>b</li><ul><li>c</li></ul><li>d</li></ul></ul>')
+      list.outdent(item('b'))
+      expect(root.outerHTML).toBe('<ul><li>a</li><li>b</li><ul><li>c</li><li>d</li></ul></ul>')
+    })
+
+    it('does not outdent items of the outermost list', function () {
+      setup('<ul><li>a</li></ul>')
+      expect(list.outdent(item('a'))).toBe(false)
+    })
+  })
+
+  describe('exitList()', function () {
+
+    it('replaces an item with a paragraph after the list', function () {
+      const container = createElement('<div><ul><li>a</li><li>b</li><li>c</li></ul></div>')
+      root = container.firstChild
+      const paragraph = list.exitList(item('b'))
+      expect(paragraph.outerHTML).toBe('<p>b</p>')
+      expect(container.innerHTML).toBe('<ul><li>a</li></ul><p>b</p><ul><li>c</li></ul>')
+    })
+
+    it('removes the list without items', function () {
+      const container = createElement('<div><ol><li>a</li></ol></div>')
+      root = container.firstChild
+      list.exitList(item('a'))
+      expect(container.innerHTML).toBe('<p>a</p>')
+    })
+  })
+
+  describe('moveItem()', function () {
+
+    it('moves an item with its nested list', function () {
+      setup('<ul><li>a</li><ul><li>b</li></ul><li>c</li></ul>')
+      expect(list.moveItem(item('c'), 'before')).toBe(true)
+      expect(root.outerHTML).toBe('<ul><li>c</li><li>a</li><ul><li>b</li></ul></ul>')
+    })
+
+    it('moves an item past the nested list of its sibling', function () {
+      setup('<ul><li>a</li><li>b</li><ul><li>c</li></ul></ul>')
+      list.moveItem(item('a'), 'after')
+      expect(root.outerHTML).toBe('<ul><li>b</li><ul><li>c</li></ul><li>a</li></ul>')
+    })
+
+    it('does not move the last item down', function () {
+      setup('<ul><li>a</li><ul><li>b</li></ul></ul>')
+      expect(list.moveItem(item('b'), 'after')).toBe(false)
+    })
+  })
+
+  describe('getAdjacentItem()', function () {
+
+    it('returns the items across nesting levels', function () {
+      setup('<ul><li>a</li><ul><li>b</li></ul><li>c</li></ul>')
+      expect(list.getAdjacentItem(item('b'), 'before')).toBe(item('a'))
+      expect(list.getAdjacentItem(item('b'), 'after')).toBe(item('c'))
+      expect(list.getAdjacentItem(item('c'), 'after')).toBe(undefined)
+    })
+  })
+
+  describe('unnestLists()', function () {
+
+    it('moves the nested lists of an item after it', function () {
+      setup('<ul><li>a<ul><li>b</li></ul><ol><li>c</li></ol></li><li>d</li></ul>')
+      list.unnestLists(item('abc'))
+      expect(root.innerHTML).toBe('<li>a</li><ul><li>b</li></ul><ol><li>c</li></ol><li>d</li>')
+    })
+
+    it('is applied to added items', function () {
+      setup('<div><ul><li>a<ul><li>b</li></ul></li></ul></div>')
+      const editable = new Editable()
+      editable.add(Array.from(root.querySelectorAll('li')))
+      expect(root.firstElementChild.children.length).toBe(2)
+      expect(list.getLevel(item('b'))).toBe(1)
+      expect(item('b').parentElement.previousElementSibling).toBe(item('a'))
+      editable.unload()
+    })
+  })
+
+  describe('nestListsInItems()', function () {
+
+    it('moves a nested list into the item before it', function () {
+      setup('<div><ul><li>a</li><ul><li>b</li><ol><li>c</li></ol></ul><li>d</li></ul></div>')
+      list.nestListsInItems(root)
+      expect(root.innerHTML).toBe('<ul><li>a<ul><li>b<ol><li>c</li></ol></li></ul></li><li>d</li></ul>')
+    })
+
+    it('adds an item for a nested list without an item before it', function () {
+      setup('<div><ul><ul><li>a</li></ul></ul></div>')
+      list.nestListsInItems(root)
+      expect(root.innerHTML).toBe('<ul><li><ul><li>a</li></ul></li></ul>')
+    })
+
+    it('is applied to extracted content', function () {
+      setup('<div><ul><li>a</li><ul><li>b</li></ul></ul></div>')
+      expect(extractContent(root)).toBe('<ul><li>a<ul><li>b</li></ul></li></ul>')
+      expect(root.innerHTML).toBe('<ul><li>a</li><ul><li>b</li></ul></ul>')
+    })
+  })
+
+  describe('default behavior', function () {
+    let editable, container
+
+    beforeEach(function () {
+      container = createElement('<div><ul><li>a</li><li>b</li><li>c</li></ul></div>')
+      document.body.appendChild(container)
+      root = container.firstChild
+      editable = new Editable()
+      editable.add(Array.from(root.querySelectorAll('li')))
+    })
+
+    afterEach(function () {
+      editable.unload()
+      container.remove()
+    })
+
+    function cursorAtEnd (elem) {
+      const range = createRange()
+      range.selectNodeContents(elem)
+      range.collapse(false)
+      return new Cursor(elem, range)
+    }
+
+    it('indents an item on indent', function () {
+      editable.dispatcher.notify('indent', item('b'), cursorAtEnd(item('b')))
+      expect(list.getLevel(item('b'))).toBe(1)
+    })
+
+    it('outdents a nested item on outdent', function () {
+      list.indent(item('b'))
+      editable.dispatcher.notify('outdent', item('b'), cursorAtEnd(item('b')))
+      expect(list.getLevel(item('b'))).toBe(0)
+    })
+
+    it('turns an item of the outermost list into an editable paragraph', function () {
+      editable.dispatcher.notify('outdent', item('b'), cursorAtEnd(item('b')))
+      const paragraph = container.querySelector('p')
+      expect(paragraph.textContent).toBe('b')
+      expect(paragraph.getAttribute('contenteditable')).toBe('true')
+    })
+
+    it('undoes an indent', function () {
+      const html = container.innerHTML
+      editable.dispatcher.notify('indent', item('b'), cursorAtEnd(item('b')))
+      editable.history.undo()
+      expect(container.innerHTML).toBe(html)
+    })
+
+    it('merges an item with the previous item across levels', function () {
+      list.indent(item('b'))
+      editable.dispatcher.notify('merge', item('c'), 'before', cursorAtEnd(item('c')))
+      expect(root.querySelectorAll('li').length).toBe(2)
+      expect(root.querySelectorAll('li')[1].textContent).toBe('bc')
+    })
+
+    it('removes a nested list emptied by a merge', function () {
+      list.indent(item('b'))
+      editable.dispatcher.notify('merge', item('a'), 'after', cursorAtEnd(item('a')))
+      expect(root.querySelectorAll('ul').length).toBe(0)
+      expect(item('ab')).toBeTruthy()
+    })
+
+    it('appends a paragraph after the list to the last item', function () {
+      list.indent(item('c'))
+      const paragraph = createElement('<p>d</p>')
+      container.appendChild(paragraph)
+      editable.add(paragraph)
+      editable.dispatcher.notify('merge', paragraph, 'before', cursorAtEnd(paragraph))
+      expect(container.querySelector('p')).toBe(null)
+      expect(list.getLevel(item('cd'))).toBe(1)
+      expect(root.querySelectorAll('li').length).toBe(3)
+    })
+
+    it('merges the first item into a paragraph before the list', function () {
+      const paragraph = createElement('<p>x</p>')
+      container.insertBefore(paragraph, root)
+      editable.add(paragraph)
+      editable.dispatcher.notify('merge', paragraph, 'after', cursorAtEnd(paragraph))
+      expect(paragraph.textContent).toBe('xa')
+      expect(root.querySelectorAll('li').length).toBe(2)
+    })
+
+    it('undoes a merge with a list item', function () {
+      const paragraph = createElement('<p>d</p>')
+      container.appendChild(paragraph)
+      editable.add(paragraph)
+      const html = container.innerHTML
+      editable.dispatcher.notify('merge', paragraph, 'before', cursorAtEnd(paragraph))
+      editable.history.undo()
+      expect(container.innerHTML).toBe(html)
+    })
+
+    it('moves an item within its list', function () {
+      list.indent(item('b'))
+      editable.dispatcher.notify('move', item('c'), cursorAtEnd(item('c')), 'before')
+      expect(Array.from(root.querySelectorAll('li')).map((li: HTMLElement) => li.textContent)).toEqual(['c', 'a', 'b'])
+      expect(list.getLevel(item('b'))).toBe(1)
+    })
+
+    it('nests pasted items by their level', function () {
+      editable.dispatcher.notify('paste', item('a'), ['x', 'y', 'z'], cursorAtEnd(item('a')), [0, 1, 0])
+      expect(list.getLevel(item('y'))).toBe(1)
+      expect(list.getLevel(item('z'))).toBe(0)
+      expect(item('b')).toBeTruthy()
+    })
+  })
+})
@@ -0,0 +1,274 @@
+import {Editable} from '../src/core.js'
+import MonitoredHighlighting from '../src/monitored-highlighting.js'
+import Cursor from '../src/cursor.js'
+import {createElement, createRange} from '../src/util/dom.js'
+import {
+  SpellcheckDictionary,
+  createLocalSpellcheckService,
+  createLocalSuggest,
+  createWorkerSpellcheckService,
+  handleSpellcheckRequests
+} from '../src/plugins/highlighting/local-spellcheck.js'
+
+const aff = `
+SET UTF-8
+TRY esianrtolcdugmphbyfvkwz
+KEEPCASE K
+FORBIDDENWORD !
+NEEDAFFIX N
+
+REP 1
+REP f ph
+
+PFX U Y 1
+PFX U 0 un .
+
+SFX S Y 2
+SFX S y ies [^aeiou]y
+SFX S 0 s [aeiou]y
+
+SFX D Y 1
+SFX D 0 ed [^y] # past tense
+`
+
+const dic = `7
+happy/U
+try/S
+day/S
+paint/DU
+photo
+iPhone/K
+colour/!
+`
+
+describe('Local spellcheck', function () {
+  let dictionary
+
+  beforeEach(function () {
+    dictionary = SpellcheckDictionary.fromHunspell(aff, dic)
+  })
+
+  describe('check()', function () {
+
+    it('finds words of the dictionary', function () {
+      expect(dictionary.check('happy')).toBe(true)
+      expect(dictionary.check('hapy')).toBe(false)
+    })
+
+    it('applies suffix rules with conditions', function () {
+      expect(dictionary.check('tries')).toBe(true)
+      expect(dictionary.check('days')).toBe(true)
+      expect(dictionary.check('trys')).toBe(false)
+      expect(dictionary.check('dayies')).toBe(false)
+    })
+
+    it('applies prefix rules', function () {
+      expect(dictionary.check('unhappy')).toBe(true)
+      expect(dictionary.check('untry')).toBe(false)
+    })
+
+    it('combines prefixes and suffixes', function () {
+      expect(dictionary.check('unpainted')).toBe(true)
+    })
+
+    it('accepts capitalized words', function () {
+      expect(dictionary.check('Happy')).toBe(true)
+      expect(dictionary.check('HAPPY')).toBe(true)
+      expect(dictionary.check('hAPPY')).toBe(false)
+    })
+
+    it('keeps the case of KEEPCASE words', function () {
+      expect(dictionary.check('iPhone')).toBe(true)
+      expect(dictionary.check('IPHONE')).toBe(false)
+    })
+
+    it('rejects forbidden words', function () {
+      expect(dictionary.check('colour')).toBe(false)
+    })
+
+    it('supports long flags', function () {
+      const longFlags = SpellcheckDictionary.fromHunspell('FLAG long\nSFX Aa Y 1\nSFX Aa 0 s .', 'cat/Aa')
+      expect(longFlags.check('cats')).toBe(true)
+    })
+
+    it('supports numeric flags', function () {
+      const numFlags = SpellcheckDictionary.fromHunspell('FLAG num\nSFX 12 Y 1\nSFX 12 0 s .', 'cat/3,12')
+      expect(numFlags.check('cats')).toBe(true)
+    })
+  })
+
+  describe('suggest()', function () {
+
+    it('suggests corrections', function () {
+      expect(dictionary.suggest('hapy')).toEqual(['happy'])
+      expect(dictionary.suggest('tyr')).toContain('try')
+    })
+
+    it('uses the REP table', function () {
+      expect(dictionary.suggest('foto')[0]).toBe('photo')
+    })
+
+    it('keeps the capitalization', function () {
+      expect(dictionary.suggest('Hapy')).toEqual(['Happy'])
+    })
+
+    it('splits words', function () {
+      expect(dictionary.suggest('happyday')).toContain('happy day')
+    })
+  })
+
+  describe('fromWordList()', function () {
+
+    it('checks words of a list', function () {
+      const list = SpellcheckDictionary.fromWordList('apple\nbanana\n')
+      expect(list.check('apple')).toBe(true)
+      expect(list.check('Banana')).toBe(true)
+      expect(list.check('cherry')).toBe(false)
+    })
+
+    it('adds words', function () {
+      const list = SpellcheckDictionary.fromWordList(['apple'])
+      list.addWord('cherry')
+      expect(list.check('cherry')).toBe(true)
+    })
+  })
+
+  describe('checkText()', function () {
+
+    it('returns each misspelled word once', function () {
+      expect(dictionary.checkText('Happy hapy days, hapy tries.')).toEqual([{word: 'hapy'}])
+    })
+
+    it('adds the suggestions', function () {
+      expect(dictionary.checkText('hapy', {suggestions: true})).toEqual([
+        {word: 'hapy', suggestions: ['happy']}
+      ])
+    })
+  })
+
+  describe('createLocalSpellcheckService()', function () {
+    let editable, p
+
+    beforeEach(function () {
+      editable = new Editable()
+      p = createElement('<p>A hapy day</p>')
+      document.body.appendChild(p)
+    })
+
+    afterEach(function () {
+      editable.unload()
+      p.remove()
+    })
+
+    it('highlights the misspelled words', function () {
+      const highlighting = new MonitoredHighlighting(editable, {
+        spellcheck: {spellcheckService: createLocalSpellcheckService(SpellcheckDictionary.fromHunspell(aff, dic + 'a\n'))}
+      })
+      highlighting.highlight(p)
+      const markers = p.querySelectorAll('[data-highlight="spellcheck"]')
+      expect(Array.from(markers).map((elem) => elem.textContent)).toEqual(['hapy'])
+    })
+
+    it('uses the dictionary of the language', function () {
+      const spellcheckService = createLocalSpellcheckService({
+        en: dictionary,
+        de: SpellcheckDictionary.fromWordList(['Tag'])
+      })
+      const results = []
+      const callback = (misspellings) => results.push(misspellings.map(({word}) => word))
+      spellcheckService('Tag day', callback, 'en-GB')
+      spellcheckService('Tag day', callback, 'de')
+      spellcheckService('Tag day', callback, 'fr')
+      expect(results).toEqual([['Tag'], ['day'], []])
+    })
+
+    it('uses the first dictionary for text without a language', function () {
+      const spellcheckService = createLocalSpellcheckService({
+        de: SpellcheckDictionary.fromWordList(['Tag']),
+        en: dictionary
+      })
+      let result
+      spellcheckService('Tag day', (misspellings) => { result = misspellings.map(({word}) => word) })
+      expect(result).toEqual(['day'])
+    })
+  })
+
+  describe('createLocalSuggest()', function () {
+
+    it('suggests corrections with the dictionary of the language', function () {
+      const suggest = createLocalSuggest({en: dictionary})
+      expect(suggest('hapy', 'en')).toEqual(['happy'])
+      expect(suggest('hapy', 'de')).toEqual([])
+    })
+
+    it('provides the suggestions for the word at the cursor', function () {
+      const editable = new Editable()
+      const p = createElement('<p lang="en">hapy</p>')
+      document.body.appendChild(p)
+      const highlighting = new MonitoredHighlighting(editable, {
+        spellcheck: {
+          spellcheckService: createLocalSpellcheckService({en: dictionary}),
+          suggest: createLocalSuggest({en: dictionary})
+        }
+      })
+      highlighting.highlight(p)
+      const marker = p.querySelector('[data-highlight="spellcheck"]')
+      const range = createRange()
+      range.setStart(marker.firstChild, 1)
+      expect(highlighting.getSpellcheckInfoAt(new Cursor(p, range)).suggestions).toEqual(['happy'])
+      editable.unload()
+      p.remove()
+    })
+  })
+
+  describe('with a worker', function () {
+
+    // Connects two fake message ports like a Worker and its global scope.
+    function createChannel () {
+      const listeners = {worker: [], scope: []}
+      const port = (own, other) => ({
+        postMessage: (data) => listeners[other].forEach(({type, listener}) => type === 'message' && listener({data})),
+        addEventListener: (type, listener) => listeners[own].push({type, listener}),
+        fail: (event) => listeners[own].forEach(({type, listener}) => type === event.type && listener(event))
+      })
+      return {worker: port('worker', 'scope'), scope: port('scope', 'worker')}
+    }
+
+    it('checks the text in the worker', function () {
+      const {worker, scope} = createChannel()
+      handleSpellcheckRequests(scope, dictionary, {suggestions: true})
+      const spellcheckService = createWorkerSpellcheckService(worker)
+
+      const results = []
+      spellcheckService('hapy day', (misspellings) => results.push(misspellings))
+      spellcheckService('tyr', (misspellings) => results.push(misspellings.map(({word}) => word)))
+      expect(results).toEqual([
+        [{word: 'hapy', suggestions: ['happy']}],
+        ['tyr']
+      ])
+    })
+
+    it('passes the language to the worker', function () {
+      const {worker, scope} = createChannel()
+      handleSpellcheckRequests(scope, {en: dictionary})
+      const spellcheckService = createWorkerSpellcheckService(worker)
+
+      const results = []
+      spellcheckService('hapy', (misspellings) => results.push(misspellings.length), 'en')
+      spellcheckService('hapy', (misspellings) => results.push(misspellings.length), 'de')
+      expect(results).toEqual([1, 0])
+    })
+
+    it('fails the waiting requests when the worker fails', function () {
+      const {worker} = createChannel()
+      const spellcheckService = createWorkerSpellcheckService(worker)
+
+      const errors = []
+      spellcheckService('hapy', (misspellings, err) => errors.push(err.message))
+      spellcheckService('day', (misspellings, err) => errors.push(err.message))
+      worker.fail(new ErrorEvent('error', {message: 'not loaded'}))
+      worker.fail(new Event('messageerror'))
+      expect(errors).toEqual(['Spellcheck worker: not loaded', 'Spellcheck worker: not loaded'])
+    })
+  })
+})
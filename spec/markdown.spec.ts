@@ -0,0 +1,135 @@
+import {toMarkdown, fromMarkdown, isMarkdown} from '../src/markdown.js'
+import {paste} from '../src/clipboard.js'
+import Cursor from '../src/cursor.js'
+import {createRange} from '../src/util/dom.js'
+
+describe('Markdown', function () {
+
+  function markdownOf (html: string) {
+    const host = document.createElement('div')
+    host.innerHTML = html
+    return toMarkdown(host)
+  }
+
+  describe('toMarkdown()', function () {
+
+    it('keeps plain text', function () {
+      expect(markdownOf('foo bar')).toBe('foo bar')
+    })
+
+    it('converts bold, italic and underline', function () {
+      expect(markdownOf('<strong>a</strong> <em>b</em> <u>c</u>')).toBe('**a** _b_ ++c++')
+    })
+
+    it('converts links', function () {
+      expect(markdownOf('<a href="https://livingdocs.io">foo</a>')).toBe('[foo](https://livingdocs.io)')
+    })
+
+    it('encodes parentheses and whitespace in links', function () {
+      expect(markdownOf('<a href="https://example.com/a (b)">foo</a>')).toBe('[foo](https://example.com/a%20%28b%29)')
+    })
+
+    it('converts nested markup', function () {
+      expect(markdownOf('<strong><em>a</em></strong>')).toBe('**_a_**')
+    })
+
+    it('converts a <br> into a newline', function () {
+      expect(markdownOf('foo<br>bar')).toBe('foo\nbar')
+    })
+
+    it('moves whitespace outside of the delimiters', function () {
+      expect(markdownOf('a<strong> b </strong>c')).toBe('a **b** c')
+    })
+
+    it('escapes markdown characters in text', function () {
+      expect(markdownOf('2*3 and snake_case')).toBe('2\\*3 and snake\\_case')
+    })
+
+    it('ignores ui elements', function () {
+      expect(markdownOf('foo<span data-editable="remove">x</span>')).toBe('foo')
+    })
+  })
+
+  describe('fromMarkdown()', function () {
+
+    it('converts bold, italic and underline', function () {
+      expect(fromMarkdown('**a** _b_ *c* ++d++')).toEqual(['<strong>a</strong> <em>b</em> <em>c</em> <u>d</u>'])
+    })
+
+    it('converts links', function () {
+      expect(fromMarkdown('[foo](https://livingdocs.io)')).toEqual(['<a href="https://livingdocs.io">foo</a>'])
+    })
+
+    it('drops links to scripts', function () {
+      expect(fromMarkdown('[x](javascript:alert(1))')).toEqual(['x)'])
+      expect(fromMarkdown('[x](JavaScript:alert%281%29)')).toEqual(['x'])
+    })
+
+    it('splits blocks on empty lines', function () {
+      expect(fromMarkdown('foo\n\nbar')).toEqual(['foo', 'bar'])
+    })
+
+    it('converts a single newline into a <br>', function () {
+      expect(fromMarkdown('foo\nbar')).toEqual(['foo<br>bar'])
+    })
+
+    it('escapes html', function () {
+      expect(fromMarkdown('<b>a</b> & b')).toEqual(['&lt;b&gt;a&lt;/b&gt; &amp; b'])
+    })
+
+    it('does not treat underscores within words as italic', function () {
+      expect(fromMarkdown('snake_case_name')).toEqual(['snake_case_name'])
+    })
+
+    it('resolves escaped characters', function () {
+      expect(fromMarkdown('2\\*3\\*4')).toEqual(['2*3*4'])
+    })
+
+    it('reverts toMarkdown()', function () {
+      const html = '<strong>a</strong> <em>b</em><br><a href="https://livingdocs.io">c_d</a>'
+      expect(fromMarkdown(markdownOf(html))).toEqual([html])
+    })
+  })
+
+  describe('isMarkdown()', function () {
+
+    it('detects markdown syntax', function () {
+      expect(isMarkdown('a **bold** word')).toBe(true)
+      expect(isMarkdown('a [link](https://livingdocs.io)')).toBe(true)
+      expect(isMarkdown('an _italic_ word')).toBe(true)
+    })
+
+    it('does not detect plain text', function () {
+      expect(isMarkdown('snake_case and 2 * 3 * 4')).toBe(false)
+    })
+  })
+
+  describe('paste()', function () {
+    let block
+
+    beforeEach(function () {
+      block = document.createElement('div')
+      block.innerHTML = 'foo'
+      document.body.appendChild(block)
+    })
+
+    afterEach(function () {
+      block.remove()
+    })
+
+    function pasteText (text: string, options?: {markdown?: boolean}) {
+      const range = createRange()
+      range.selectNodeContents(block)
+      range.collapse(false)
+      return paste(block, new Cursor(block, range), text, options).blocks
+    }
+
+    it('converts markdown when enabled', function () {
+      expect(pasteText('**a**\n\nb', {markdown: true})).toEqual(['<strong>a</strong>', 'b'])
+    })
+
+    it('does not convert markdown by default', function () {
+      expect(pasteText('**a**')).toEqual(['**a**'])
+    })
+  })
+})
@@ -0,0 +1,150 @@
+import {Editable} from '../src/core.js'
+import MultiBlockSelection from '../src/multi-block-selection.js'
+import Keyboard from '../src/keyboard.js'
+import {createElement, createRange} from '../src/util/dom.js'
+const {key} = Keyboard
+
+describe('MultiBlockSelection', function () {
+  let editable, container, hosts
+
+  beforeEach(function () {
+    container = createElement('<div><p>first</p><p>second</p><p>third</p></div>')
+    document.body.appendChild(container)
+    hosts = Array.from(container.querySelectorAll('p'))
+    editable = new Editable()
+    editable.add(hosts)
+  })
+
+  afterEach(function () {
+    editable.unload()
+    container.remove()
+  })
+
+  // Select from an offset in the first host to an offset in the last host.
+  function select (first, startOffset, last, endOffset) {
+    const range = createRange()
+    range.setStart(first.firstChild, startOffset)
+    range.setEnd(last.firstChild, endOffset)
+    const blocks = hosts.slice(hosts.indexOf(first), hosts.indexOf(last) + 1)
+    const selection = new MultiBlockSelection(blocks, range)
+    selection.setVisibleSelection()
+    return selection
+  }
+
+  describe('text()', function () {
+
+    it('returns the text of every block', function () {
+      expect(select(hosts[0], 2, hosts[2], 3).text()).toBe('rst\nsecond\nthi')
+    })
+  })
+
+  describe('html()', function () {
+
+    it('wraps the content of every block', function () {
+      hosts[1].innerHTML = 'sec<em>ond</em>'
+      expect(select(hosts[0], 2, hosts[1], 3).html()).toBe('<p>rst</p><p>sec</p>')
+    })
+  })
+
+  describe('deleteContent()', function () {
+
+    it('merges the first and the last block', function () {
+      const cursor = select(hosts[0], 2, hosts[2], 3).deleteContent()
+      expect(container.querySelectorAll('p').length).toBe(1)
+      expect(hosts[0].textContent).toBe('fird')
+      expect(cursor.host).toBe(hosts[0])
+      expect(cursor.textBefore()).toBe('fi')
+    })
+
+    it('removes lists without items', function () {
+      container.innerHTML = '<ul><li>one</li></ul><p>two</p>'
+      hosts = Array.from(container.querySelectorAll('li, p'))
+      editable.add(hosts)
+      select(hosts[0], 1, hosts[1], 1).deleteContent()
+      expect(container.querySelectorAll('li').length).toBe(1)
+      expect(container.textContent).toBe('owo')
+    })
+  })
+
+  describe('toggleBold()', function () {
+
+    it('makes all blocks bold', function () {
+      select(hosts[0], 2, hosts[1], 3).toggleBold()
+      expect(hosts[0].innerHTML).toBe('fi<strong>rst</strong>')
+      expect(hosts[1].innerHTML).toBe('<strong>sec</strong>ond')
+    })
+
+    it('removes the bold again', function () {
+      const selection = select(hosts[0], 2, hosts[1], 3)
+      selection.toggleBold()
+      selection.toggleBold()
+      expect(hosts[0].innerHTML).toBe('first')
+      expect(hosts[1].innerHTML).toBe('second')
+    })
+
+    it('makes all blocks bold if only some are bold', function () {
+      hosts[0].innerHTML = 'fi<strong>rst</strong>'
+      const range = createRange()
+      range.setStart(hosts[0].querySelector('strong').firstChild, 0)
+      range.setEnd(hosts[1].firstChild, 3)
+      new MultiBlockSelection([hosts[0], hosts[1]], range).toggleBold()
+      expect(hosts[0].innerHTML).toBe('fi<strong>rst</strong>')
+      expect(hosts[1].innerHTML).toBe('<strong>sec</strong>ond')
+    })
+
+    it('keeps the selection around all blocks', function () {
+      const selection = select(hosts[0], 2, hosts[1], 3)
+      selection.toggleBold()
+      expect(selection.text()).toBe('rst\nsec')
+    })
+
+    it('does not format plain text blocks', function () {
+      editable.add(hosts[1], {plainText: true})
+      select(hosts[0], 2, hosts[1], 3).toggleBold()
+      expect(hosts[0].innerHTML).toBe('fi<strong>rst</strong>')
+      expect(hosts[1].innerHTML).toBe('second')
+    })
+  })
+
+  describe('with the editable', function () {
+
+    it('fires the selection event', function () {
+      let selected
+      editable.on('selection', (element, selection) => { selected = selection })
+      select(hosts[0], 2, hosts[1], 3)
+      editable.dispatcher.selectionWatcher.selectionChanged()
+      expect(selected).toBeInstanceOf(MultiBlockSelection)
+      expect(selected.hosts).toEqual([hosts[0], hosts[1]])
+    })
+
+    it('deletes the selection with backspace', function () {
+      select(hosts[0], 2, hosts[1], 3)
+      hosts[0].dispatchEvent(new KeyboardEvent('keydown', {keyCode: key.backspace, bubbles: true}))
+      expect(container.querySelectorAll('p').length).toBe(2)
+      expect(hosts[0].textContent).toBe('fiond')
+    })
+
+    it('undoes the deletion', function () {
+      const html = container.innerHTML
+      select(hosts[0], 2, hosts[2], 3)
+      hosts[0].dispatchEvent(new KeyboardEvent('keydown', {keyCode: key.delete, bubbles: true}))
+      editable.history.undo()
+      expect(container.innerHTML).toBe(html)
+    })
+
+    it('cuts the selection', function () {
+      select(hosts[0], 2, hosts[1], 3)
+      const clipboardData = new DataTransfer()
+      hosts[0].dispatchEvent(new ClipboardEvent('cut', {clipboardData, bubbles: true}))
+      expect(clipboardData.getData('text/plain')).toBe('rst\nsec')
+      expect(clipboardData.getData('text/html')).toBe('<p>rst</p><p>sec</p>')
+      expect(hosts[0].textContent).toBe('fiond')
+    })
+
+    it('toggles bold with the keyboard shortcut', function () {
+      select(hosts[0], 2, hosts[1], 3)
+      hosts[0].dispatchEvent(new KeyboardEvent('keydown', {keyCode: key.b, ctrlKey: true, bubbles: true}))
+      expect(hosts[1].innerHTML).toBe('<strong>sec</strong>ond')
+    })
+  })
+})
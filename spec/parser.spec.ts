@@ -57,6 +57,29 @@ describe('Parser', function () {
     })
   })
 
+  describe('getHostsOfRange()', function () {
+    let container
+
+    beforeEach(function () {
+      container = createElement(`<div><p class="${config.editableClass}">a</p><h2>b</h2><p class="${config.editableClass}">c</p><p class="${config.editableClass}">d</p></div>`)
+    })
+
+    it('returns the hosts a range spans', function () {
+      const [first, second] = container.querySelectorAll('p')
+      const range = createRange()
+      range.setStart(first.firstChild, 0)
+      range.setEnd(second.firstChild, 1)
+      expect(parser.getHostsOfRange(range)).toEqual([first, second])
+    })
+
+    it('returns no hosts if the range ends outside of a host', function () {
+      const range = createRange()
+      range.setStart(container.querySelector('p').firstChild, 0)
+      range.setEnd(container.querySelector('h2').firstChild, 1)
+      expect(parser.getHostsOfRange(range)).toEqual([])
+    })
+  })
+
   describe('getNodeIndex()', function () {
 
     it('gets element index of link in text', function () {
@@ -0,0 +1,101 @@
+import {applyStyleFormatting, detectPasteSource, processPasteSource} from '../src/paste-sources.js'
+import {paste} from '../src/clipboard.js'
+import Cursor from '../src/cursor.js'
+import {createElement, createRange} from '../src/util/dom.js'
+
+describe('Paste sources', function () {
+
+  const googleDocs = '<meta charset="utf-8"><b style="font-weight:normal;" id="docs-internal-guid-1a2b3c">' +
+    '<p dir="ltr" style="line-height:1.38;"><span style="font-size:11pt;font-weight:400;">a </span>' +
+    '<span style="font-size:11pt;font-weight:700;">bold</span><span style="font-weight:400;font-style:italic;"> and italic</span></p></b>'
+
+  const word = '<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word">' +
+    '<body><p class="MsoNormal">a <span style="font-weight:bold;mso-bidi-font-weight:normal">bold</span> word<o:p></o:p></p>' +
+    '<p class="MsoNormal"><o:p>&nbsp;</o:p></p></body></html>'
+
+  const libreOffice = '<meta name="generator" content="LibreOffice 7.6.4.1 (Linux)"/>' +
+    '<p><span style="font-style: italic">italic</span> text</p>'
+
+  function process (html) {
+    const element = document.createElement('div')
+    element.innerHTML = html
+    processPasteSource(element, html)
+    return element.innerHTML
+  }
+
+  describe('detectPasteSource()', function () {
+
+    it('detects Google Docs', function () {
+      expect(detectPasteSource(googleDocs)?.name).toBe('google-docs')
+    })
+
+    it('detects Word', function () {
+      expect(detectPasteSource(word)?.name).toBe('word')
+    })
+
+    it('detects LibreOffice', function () {
+      expect(detectPasteSource(libreOffice)?.name).toBe('libreoffice')
+    })
+
+    it('returns undefined for other html', function () {
+      expect(detectPasteSource('<p>a <strong>b</strong></p>')).toBe(undefined)
+    })
+  })
+
+  describe('processPasteSource()', function () {
+
+    it('unwraps the Google Docs wrapper and keeps the styled formatting', function () {
+      expect(process(googleDocs)).toBe('<meta charset="utf-8">' +
+        '<p dir="ltr" style="line-height:1.38;"><span style="font-size:11pt;font-weight:400;">a </span>' +
+        '<span style="font-size:11pt;font-weight:700;"><strong>bold</strong></span>' +
+        '<span style="font-weight:400;font-style:italic;"><em> and italic</em></span></p>')
+    })
+
+    it('removes the paragraph markers of Word', function () {
+      expect(process(word)).toBe('<p class="MsoNormal">a <span style="font-weight:bold;mso-bidi-font-weight:normal">' +
+        '<strong>bold</strong></span> word</p><p class="MsoNormal"></p>')
+    })
+
+    it('leaves html of other sources untouched', function () {
+      const html = '<p><span style="font-weight:bold">a</span></p>'
+      expect(process(html)).toBe(html)
+    })
+  })
+
+  describe('applyStyleFormatting()', function () {
+
+    it('wraps underlined content', function () {
+      const element = createElement('<div><span style="text-decoration: underline">a</span></div>')
+      applyStyleFormatting(element)
+      expect(element.innerHTML).toBe('<span style="text-decoration: underline"><u>a</u></span>')
+    })
+
+    it('does not wrap a tag in its own markup', function () {
+      const element = createElement('<div><strong style="font-weight: bold">a</strong></div>')
+      applyStyleFormatting(element)
+      expect(element.innerHTML).toBe('<strong style="font-weight: bold">a</strong>')
+    })
+  })
+
+  describe('with paste()', function () {
+
+    function pasteInto (html) {
+      const block = createElement('<div></div>')
+      const range = createRange()
+      range.selectNodeContents(block)
+      return paste(block, new Cursor(block, range), html).blocks
+    }
+
+    it('keeps the formatting of Google Docs', function () {
+      expect(pasteInto(googleDocs)).toEqual(['a <strong>bold</strong><em> and italic</em>'])
+    })
+
+    it('keeps the formatting of Word', function () {
+      expect(pasteInto(word)).toEqual(['a <strong>bold</strong> word'])
+    })
+
+    it('keeps the formatting of LibreOffice', function () {
+      expect(pasteInto(libreOffice)).toEqual(['<em>italic</em> text'])
+    })
+  })
+})
@@ -0,0 +1,105 @@
+import {Editable} from '../src/core.js'
+import PasteTransforms from '../src/paste-transforms.js'
+import Cursor from '../src/cursor.js'
+import {paste} from '../src/clipboard.js'
+import {createElement, createRange} from '../src/util/dom.js'
+
+describe('PasteTransforms', function () {
+  let transforms, block
+
+  beforeEach(function () {
+    transforms = new PasteTransforms()
+    block = createElement('<p></p>')
+  })
+
+  function pasteInto (html, elem = block) {
+    const range = createRange()
+    range.selectNodeContents(elem)
+    return paste(elem, new Cursor(elem, range), html, {transforms}).blocks
+  }
+
+  describe('use()', function () {
+
+    it('runs DOM transforms before the content is parsed', function () {
+      transforms.use((element) => {
+        for (const mark of Array.from(element.querySelectorAll('mark'))) mark.replaceWith(createElement('<em>x</em>'))
+      })
+      expect(pasteInto('a <mark>b</mark>')).toEqual(['a <em>x</em>'])
+    })
+
+    it('runs blocks transforms after the content is parsed', function () {
+      transforms.use({blocks: (blocks) => blocks.map(({html}) => ({html: html.toUpperCase()}))})
+      expect(pasteInto('<p>a</p><p>b</p>')).toEqual(['A', 'B'])
+    })
+
+    it('runs the transforms in the order they were added', function () {
+      const calls: string[] = []
+      transforms.use({blocks: () => { calls.push('first') }})
+      transforms.use({blocks: () => { calls.push('second') }})
+      pasteInto('a')
+      expect(calls).toEqual(['first', 'second'])
+    })
+
+    it('passes the context of the block', function () {
+      let context
+      block.setAttribute('lang', 'de')
+      transforms.use((element, ctx) => { context = ctx })
+      pasteInto('a')
+      expect(context).toEqual({block, profile: 'default', plainText: false, lang: 'de'})
+    })
+
+    it('returns a function to remove the transform', function () {
+      const remove = transforms.use({blocks: () => [{html: 'replaced'}]})
+      remove()
+      expect(pasteInto('a')).toEqual(['a'])
+    })
+  })
+
+  describe('profiles', function () {
+
+    beforeEach(function () {
+      transforms.addProfile('caption', {allowedElements: {'br': {}}})
+    })
+
+    it('selects the profile with the data-paste-profile attribute', function () {
+      block.setAttribute('data-paste-profile', 'caption')
+      expect(pasteInto('a <strong>b</strong>')).toEqual(['a b'])
+    })
+
+    it('uses the global rules for the default profile', function () {
+      expect(pasteInto('a <strong>b</strong>')).toEqual(['a <strong>b</strong>'])
+    })
+
+    it('only runs the transforms of the profile', function () {
+      transforms.use({blocks: () => [{html: 'caption'}]}, {profile: 'caption'})
+      expect(pasteInto('a')).toEqual(['a'])
+      block.setAttribute('data-paste-profile', 'caption')
+      expect(pasteInto('a')).toEqual(['caption'])
+    })
+
+    it('falls back to the default profile for unknown profiles', function () {
+      block.setAttribute('data-paste-profile', 'unknown')
+      expect(pasteInto('a <strong>b</strong>')).toEqual(['a <strong>b</strong>'])
+    })
+  })
+
+  describe('with two editables', function () {
+    let first, second
+
+    beforeEach(function () {
+      first = new Editable()
+      second = new Editable()
+      first.pasteTransforms.addProfile('default', {allowedElements: {}})
+    })
+
+    afterEach(function () {
+      first.unload()
+      second.unload()
+    })
+
+    it('keeps the rules of each instance', function () {
+      expect(first.pasteTransforms.getRules('default').allowedElements).toEqual({})
+      expect(second.pasteTransforms.getRules('default').allowedElements.strong).toEqual({})
+    })
+  })
+})
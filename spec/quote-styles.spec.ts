@@ -0,0 +1,26 @@
+import {getQuoteStyle, quoteStyles} from '../src/quote-styles.js'
+
+describe('getQuoteStyle()', function () {
+
+  it('returns the style of a language', function () {
+    expect(getQuoteStyle('de')).toBe(quoteStyles.de)
+    expect(getQuoteStyle('fr').quotes).toEqual(['«', '»'])
+  })
+
+  it('prefers the style of the region', function () {
+    expect(getQuoteStyle('de-CH')).toBe(quoteStyles['de-CH'])
+    expect(getQuoteStyle('de-ch')).toBe(quoteStyles['de-CH'])
+    expect(getQuoteStyle('de_CH')).toBe(quoteStyles['de-CH'])
+  })
+
+  it('falls back to the primary language', function () {
+    expect(getQuoteStyle('de-AT')).toBe(quoteStyles.de)
+    expect(getQuoteStyle('en-GB')).toBe(quoteStyles.en)
+  })
+
+  it('returns undefined for unknown languages', function () {
+    expect(getQuoteStyle('tlh')).toBe(undefined)
+    expect(getQuoteStyle('')).toBe(undefined)
+    expect(getQuoteStyle(undefined)).toBe(undefined)
+  })
+})
@@ -37,6 +37,37 @@ describe('RangeContainer', function () {
     })
   })
 
+  describe('with a selection across several hosts', function () {
+    let range: RangeContainer, hosts: HTMLElement[]
+
+    beforeEach(function () {
+      const container = createElement('<div><p>a</p><p>b</p></div>')
+      hosts = Array.from(container.querySelectorAll('p'))
+      const domRange = createRange()
+      domRange.setStart(hosts[0].firstChild!, 0)
+      domRange.setEnd(hosts[1].firstChild!, 1)
+      range = new RangeContainer(hosts[0], domRange, hosts)
+    })
+
+    it('is a multi block selection', function () {
+      expect(range.isMultiBlockSelection).toBe(true)
+      expect(range.isSelection).toBe(false)
+      expect(range.isCursor).toBe(false)
+    })
+
+    it('returns a MultiBlockSelection', function () {
+      expect(range.getSelection()).toBe(undefined)
+      expect(range.getMultiBlockSelection()!.hosts).toEqual(hosts)
+    })
+
+    it('merges the hosts with forceCursor()', function () {
+      const cursor = range.forceCursor()!
+      expect(cursor.host).toBe(hosts[0])
+      expect(hosts[0].textContent).toBe('')
+      expect(hosts[1].isConnected).toBe(false)
+    })
+  })
+
   describe('with a selection', function () {
     let range: RangeContainer
 
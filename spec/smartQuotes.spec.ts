@@ -1,4 +1,5 @@
-import {isDoubleQuote, isSingleQuote, isWhitespace, isSeparatorOrWhitespace, isApostrophe, replaceQuote} from '../src/smartQuotes'
+import {isDoubleQuote, isSingleQuote, isWhitespace, isSeparatorOrWhitespace, isApostrophe, getSmartQuotes} from '../src/smartQuotes'
+import {createElement} from '../src/util/dom.js'
 
 const allSingleQuotes = ['‘', '’', '‹', '›', '‚', '‘', '›', '‹', `'`, `‘`]
 const allDoubleQuotes = ['«', '»', '»', '«', '"', '"', '“', '”', '”', '”', '“', '“', '„', '“']
@@ -88,37 +89,28 @@ describe('Smart Quotes Helper Functions:', () => {
   })
 })
 
-const createRangeWithText = (text: string) => {
-  const textNode = document.createTextNode(text)
-  const range = document.createRange()
-  range.selectNodeContents(textNode)
-  return range
-}
-
-describe('replaceQuote(): ', () => {
-  const testString = '123 "you'
-  const index = testString.indexOf('"')
-
-  it('should replace quote at given index', () => {
-    const range = createRangeWithText(testString)
-    const replacedTextNode = replaceQuote(range, index, '`')
-    expect(replacedTextNode.textContent).toBe('123 `you')
+describe('getSmartQuotes(): ', () => {
+  afterEach(() => {
+    document.documentElement.removeAttribute('lang')
   })
 
-  it('should return null if range is invalid', () => {
-    const invalidNodeValue = replaceQuote(undefined, index, '`')
-    expect(invalidNodeValue).toBe(null)
+  it('uses the quotes of the nearest lang attribute', () => {
+    const elem = createElement('<p lang="de">Text <span lang="de-CH">Text</span></p>')
+    expect(getSmartQuotes({}, elem.firstChild)).toEqual({quotes: ['„', '“'], singleQuotes: ['‚', '‘']})
+    expect(getSmartQuotes({}, elem.lastChild.firstChild)).toEqual({quotes: ['«', '»'], singleQuotes: ['‹', '›']})
   })
 
-  it('should return null if range is empty', () => {
-    const range = createRangeWithText('')
-    const replacedTextNode = replaceQuote(range, 0, '`')
-    expect(replacedTextNode).toBe(null)
+  it('falls back to the language of the document', () => {
+    document.documentElement.lang = 'fr'
+    expect(getSmartQuotes({}, createElement('<p>Text</p>')).quotes).toEqual(['«', '»'])
   })
 
-  it('should insert quote at the end, if index is out of bounds', () => {
-    const range = createRangeWithText(testString)
-    const replacedTextNode = replaceQuote(range, 40, '`')
-    expect(replacedTextNode.textContent).toBe(`${testString}${'`'}`)
+  it('prefers the configured quotes', () => {
+    const elem = createElement('<p lang="de">Text</p>')
+    expect(getSmartQuotes({quotes: ['“', '”'], singleQuotes: []}, elem)).toEqual({quotes: ['“', '”'], singleQuotes: ['‚', '‘']})
+  })
+
+  it('returns undefined without quotes', () => {
+    expect(getSmartQuotes({quotes: [], singleQuotes: []}, createElement('<p>Text</p>'))).toBe(undefined)
   })
 })
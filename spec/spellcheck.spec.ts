@@ -2,6 +2,7 @@
 import {vi} from 'vitest'
 import {Editable} from '../src/core.js'
 import MonitoredHighlighting from '../src/monitored-highlighting.js'
+import SpellcheckService from '../src/plugins/highlighting/spellcheck-service.js'
 import Cursor from '../src/cursor.js'
 import {createElement, createRange} from '../src/util/dom.js'
 
@@ -87,6 +88,16 @@ describe('Spellcheck:', function () {
         expect(misspelledWord.length).toBe(0)
       })
 
+      it('defers the highlights until an IME composition ends', function () {
+        editable.dispatcher.composingBlocks.add(p)
+        highlighting.highlight(p)
+        expect(p.querySelectorAll('.misspelled-word').length).toBe(0)
+
+        editable.dispatcher.composingBlocks.delete(p)
+        editable.dispatcher.notify('compositionEnd', p)
+        expect(p.querySelectorAll('.misspelled-word').length).toBe(1)
+      })
+
       it('match highlights are marked with "ui-unwrap"', function () {
         highlighting.highlight(p)
         const spellcheck = p.querySelector('.misspelled-word')
@@ -187,4 +198,245 @@ describe('Spellcheck:', function () {
       })
     })
   })
+
+  describe('with suggestions', function () {
+    let p, highlighting, addToDictionary
+
+    beforeEach(function () {
+      p = createElement('<p>A smple <em>sentnce</em> smple.</p>')
+      window.document.body.appendChild(p)
+      editable.add(p)
+
+      addToDictionary = vi.fn()
+      highlighting = new MonitoredHighlighting(editable, {
+        checkOnChange: false,
+        spellcheck: {
+          spellcheckService: (text, callback) => {
+            callback([
+              {word: 'smple', suggestions: ['simple', 'sample']},
+              'sentnce'
+            ])
+          },
+          addToDictionary
+        }
+      })
+      highlighting.highlight(p)
+    })
+
+    afterEach(function () {
+      p.remove()
+    })
+
+    function markers () {
+      return Array.from(p.querySelectorAll('[data-highlight="spellcheck"]')).map((elem) => elem.textContent)
+    }
+
+    describe('getSpellcheckInfoAt()', function () {
+
+      it('returns the word at the cursor with its suggestions', function () {
+        const marker = p.querySelector('[data-highlight="spellcheck"]')
+        const info = highlighting.getSpellcheckInfoAt(createCursor(p, marker.firstChild, 2))
+        expect(info).toMatchObject({
+          wordId: marker.getAttribute('data-word-id'),
+          word: 'smple',
+          start: 2,
+          end: 7,
+          suggestions: ['simple', 'sample']
+        })
+        expect(info.range.toString()).toBe('smple')
+      })
+
+      it('returns no suggestions for a plain misspelled word', function () {
+        const marker = p.querySelector('em [data-highlight="spellcheck"]')
+        expect(highlighting.getSpellcheckInfoAt(createCursor(p, marker.firstChild, 0)).suggestions).toEqual([])
+      })
+
+      it('returns undefined outside of a misspelled word', function () {
+        expect(highlighting.getSpellcheckInfoAt(createCursor(p, p.firstChild, 1))).toBe(undefined)
+      })
+    })
+
+    describe('replaceMisspelling()', function () {
+
+      it('replaces the word and keeps the markup', function () {
+        const changes = []
+        editable.on('change', (host) => changes.push(host))
+        const wordId = p.querySelector('em [data-highlight="spellcheck"]').getAttribute('data-word-id')
+        expect(highlighting.replaceMisspelling(wordId, 'sentence')).toBe(true)
+        expect(editable.getContent(p)).toBe('A smple <em>sentence</em> smple.')
+        expect(changes).toEqual([p])
+      })
+
+      it('returns false for an unknown word id', function () {
+        expect(highlighting.replaceMisspelling('unknown', 'x')).toBe(false)
+      })
+    })
+
+    describe('ignoreWord()', function () {
+
+      it('removes the highlights of the word', function () {
+        highlighting.ignoreWord('smple')
+        expect(markers()).toEqual(['sentnce'])
+      })
+
+      it('does not highlight an ignored word again', function () {
+        highlighting.ignoreWord('smple')
+        highlighting.highlight(p)
+        expect(markers()).toEqual(['sentnce'])
+      })
+    })
+
+    describe('addToDictionary()', function () {
+
+      it('calls the addToDictionary hook and ignores the word', function () {
+        highlighting.addToDictionary('sentnce', 'en')
+        expect(addToDictionary).toHaveBeenCalledWith('sentnce', 'en')
+        expect(markers()).toEqual(['smple', 'smple'])
+      })
+    })
+  })
+
+  describe('incremental checks', function () {
+    let p, highlighting, checkedTexts, updates
+
+    beforeEach(function () {
+      p = createElement('<p>A smple text</p>')
+      window.document.body.appendChild(p)
+
+      checkedTexts = []
+      updates = []
+      highlighting = new MonitoredHighlighting(editable, {
+        spellcheck: {
+          spellcheckService: (text, callback) => {
+            checkedTexts.push(text)
+            callback(text.split(' ').filter((word) => ['smple', 'txt'].includes(word)))
+          }
+        }
+      })
+      editable.on('spellcheckUpdated', (host, update) => updates.push(update))
+      highlighting.highlight(p)
+    })
+
+    afterEach(function () {
+      p.remove()
+    })
+
+    it('only sends the sentences with new words', function () {
+      p.lastChild.appendData('. More txt here.')
+      highlighting.highlight(p)
+      expect(checkedTexts).toEqual(['A smple text', 'More txt here.'])
+      expect(p.querySelectorAll('[data-highlight="spellcheck"]').length).toBe(2)
+    })
+
+    it('sends the sentence of an edited word', function () {
+      p.lastChild.appendData('. More words.')
+      highlighting.highlight(p)
+      p.firstChild.replaceData(0, 1, 'The')
+      highlighting.highlight(p)
+      expect(checkedTexts).toEqual(['A smple text', 'More words.', 'The smple text.'])
+    })
+
+    it('logs errors and updates the highlights when the service throws', function () {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      highlighting.spellcheckService = new SpellcheckService(() => { throw new Error('offline') })
+      p.lastChild.appendData(' txt')
+      highlighting.highlight(p)
+      expect(errorSpy).toHaveBeenCalled()
+      expect(p.querySelectorAll('[data-highlight="spellcheck"]').length).toBe(1)
+      expect(updates.length).toBe(2)
+      errorSpy.mockRestore()
+    })
+
+    it('does not call the service without new words', function () {
+      highlighting.highlight(p)
+      expect(checkedTexts.length).toBe(1)
+    })
+
+    it('does not touch unchanged markers', function () {
+      const marker = p.querySelector('[data-highlight="spellcheck"]')
+      p.lastChild.appendData(' txt')
+      highlighting.highlight(p)
+      expect(p.querySelector('[data-highlight="spellcheck"]')).toBe(marker)
+    })
+
+    it('reports the added and removed highlights', function () {
+      expect(updates[0].added).toMatchObject([{type: 'spellcheck', text: 'smple', start: 2, end: 7}])
+
+      p.querySelector('[data-highlight="spellcheck"]').textContent = 'simple'
+      highlighting.highlight(p)
+      expect(updates[1].added).toEqual([])
+      expect(updates[1].removed).toMatchObject([{type: 'spellcheck', text: 'simple', start: 2, end: 8}])
+
+      highlighting.highlight(p)
+      expect(updates[2]).toEqual({added: [], removed: []})
+    })
+  })
+
+  describe('with multiple languages', function () {
+    let p, requests, highlighting
+
+    const misspellings = {
+      en: ['smple'],
+      de: ['Beispil']
+    }
+
+    beforeEach(function () {
+      requests = []
+      highlighting = new MonitoredHighlighting(editable, {
+        spellcheck: {
+          spellcheckService: (text, callback, lang) => {
+            requests.push({text, lang})
+            callback(text.split(' ').filter((word) => (misspellings[lang] || []).includes(word)))
+          }
+        }
+      })
+    })
+
+    afterEach(function () {
+      p.remove()
+      document.documentElement.removeAttribute('lang')
+    })
+
+    function markers () {
+      return Array.from(p.querySelectorAll('[data-highlight="spellcheck"]')).map((elem) => elem.textContent)
+    }
+
+    it('checks the text of each language separately', function () {
+      p = createElement('<p lang="de">Ein Beispil mit <span lang="en">a smple</span> text</p>')
+      document.body.appendChild(p)
+      highlighting.highlight(p)
+      expect(requests).toEqual([
+        {text: 'Ein Beispil mit   text', lang: 'de'},
+        {text: 'a smple', lang: 'en'}
+      ])
+      expect(markers()).toEqual(['Beispil', 'smple'])
+    })
+
+    it('does not check words of other languages', function () {
+      p = createElement('<p lang="en">smple <span lang="de">smple</span></p>')
+      document.body.appendChild(p)
+      misspellings.de = []
+      highlighting.highlight(p)
+      misspellings.de = ['Beispil']
+      expect(markers()).toEqual(['smple'])
+      expect(p.querySelector('[lang="de"]').innerHTML).toBe('smple')
+    })
+
+    it('falls back to the language of the document', function () {
+      document.documentElement.lang = 'en'
+      p = createElement('<p>A smple text</p>')
+      document.body.appendChild(p)
+      highlighting.highlight(p)
+      expect(requests).toEqual([{text: 'A smple text', lang: 'en'}])
+    })
+
+    it('returns the language with the spellcheck info', function () {
+      p = createElement('<p lang="de">Beispil</p>')
+      document.body.appendChild(p)
+      highlighting.highlight(p)
+      const marker = p.querySelector('[data-highlight="spellcheck"]')
+      const info = highlighting.getSpellcheckInfoAt(createCursor(p, marker.firstChild, 1))
+      expect(info.lang).toBe('de')
+    })
+  })
 })
@@ -1,4 +1,4 @@
-import {computeDiff, type DiffOperation} from '../../src/plugins/text-diff/diff-algorithm.js'
+import {computeDiff, tokenize, type DiffOperation} from '../../src/plugins/text-diff/diff-algorithm.js'
 
 describe('diff-algorithm:', function () {
   describe('computeDiff:', function () {
@@ -197,5 +197,77 @@ describe('diff-algorithm:', function () {
       const deleteOps = result.filter(op => op.type === 'delete')
       expect(deleteOps.length).toBeGreaterThan(0)
     })
+
+    it('should group short equalities into the surrounding changes', function () {
+      const result = computeDiff('hello world', 'hi there')
+      expect(result.map(op => [op.type, op.value])).toEqual([
+        ['equal', 'h'],
+        ['delete', 'ello world'],
+        ['insert', 'i there']
+      ])
+    })
+
+    it('should put deletions before insertions', function () {
+      const result = computeDiff('abc', 'axc')
+      expect(result.map(op => op.type)).toEqual(['equal', 'delete', 'insert', 'equal'])
+    })
+
+    it('should handle long texts', function () {
+      const oldText = 'lorem ipsum dolor sit amet '.repeat(200)
+      const newText = oldText.replace(/dolor/g, 'dolore')
+      const result = computeDiff(oldText, newText)
+      const inserted = result.filter(op => op.type === 'insert')
+      expect(inserted).toHaveLength(200)
+      expect(inserted.every(op => op.value === 'e')).toBe(true)
+    })
+  })
+
+  describe('granularity:', function () {
+    function describeDiff (result: DiffOperation[]) {
+      return result.map(op => [op.type, op.value])
+    }
+
+    it('should compare characters by default', function () {
+      expect(describeDiff(computeDiff('cat', 'cot'))).toEqual([
+        ['equal', 'c'],
+        ['delete', 'a'],
+        ['insert', 'o'],
+        ['equal', 't']
+      ])
+    })
+
+    it('should compare whole words', function () {
+      expect(describeDiff(computeDiff('the cat sat', 'the cot sat', {granularity: 'word'}))).toEqual([
+        ['equal', 'the '],
+        ['delete', 'cat'],
+        ['insert', 'cot'],
+        ['equal', ' sat']
+      ])
+    })
+
+    it('should compare whole sentences', function () {
+      const result = computeDiff('One. Two here. Three.', 'One. Two there. Three.', {granularity: 'sentence'})
+      expect(describeDiff(result)).toEqual([
+        ['equal', 'One. '],
+        ['delete', 'Two here. '],
+        ['insert', 'Two there. '],
+        ['equal', 'Three.']
+      ])
+    })
+
+    it('should compute the offsets of word changes', function () {
+      const result = computeDiff('a big dog', 'a dog', {granularity: 'word'})
+      expect(result[1]).toMatchObject({type: 'delete', value: 'big ', oldStart: 2, oldEnd: 6, newStart: 2, newEnd: 2})
+    })
+  })
+
+  describe('tokenize:', function () {
+    it('should split words, whitespace and punctuation', function () {
+      expect(tokenize('Hi, wörld!', 'word')).toEqual(['Hi', ',', ' ', 'wörld', '!'])
+    })
+
+    it('should split sentences after their punctuation and whitespace', function () {
+      expect(tokenize('Yes. No?  Maybe', 'sentence')).toEqual(['Yes. ', 'No?  ', 'Maybe'])
+    })
   })
 })
@@ -0,0 +1,151 @@
+import {Editable} from '../../src/features.js'
+import {createElement} from '../../src/util/dom.js'
+
+describe('TextDiff track changes:', function () {
+  let div, editable, textDiff
+
+  beforeEach(function () {
+    div = createElement('<div>foo bar</div>')
+    document.body.appendChild(div)
+    editable = new Editable()
+    editable.setupTextDiff({author: 'Ada'})
+    editable.add(div)
+    textDiff = editable.textDiff
+  })
+
+  afterEach(function () {
+    editable.unload()
+    div.remove()
+  })
+
+  function edit (html) {
+    div.innerHTML = html
+    textDiff.computeAndApplyDiff(div)
+  }
+
+  function changeOfType (type) {
+    return textDiff.getChanges(div).find((change) => change.type === type)
+  }
+
+  describe('getChanges()', function () {
+
+    it('has no changes for an unchanged block', function () {
+      expect(textDiff.getChanges(div)).toEqual([])
+    })
+
+    it('lists an insertion with author and timestamp', function () {
+      edit('foo bar baz')
+      const changes = textDiff.getChanges(div)
+      expect(changes.length).toBe(1)
+      expect(changes[0]).toMatchObject({type: 'insert', value: ' baz', author: 'Ada'})
+      expect(typeof changes[0].id).toBe('string')
+      expect(typeof changes[0].timestamp).toBe('number')
+    })
+
+    it('marks a change with its id', function () {
+      edit('foo bar baz')
+      const {id} = changeOfType('insert')
+      expect(div.querySelector(`[data-word-id="${id}"]`).textContent).toBe(' baz')
+    })
+
+    it('keeps the id of a change while it is edited', function () {
+      edit('foo bar b')
+      const {id, timestamp} = changeOfType('insert')
+      edit('foo bar baz')
+      expect(changeOfType('insert')).toMatchObject({id, timestamp, value: ' baz'})
+    })
+
+    it('does not restore deleted text when the diff is applied again', function () {
+      edit('foo')
+      textDiff.computeAndApplyDiff(div)
+      expect(editable.getContent(div)).toBe('foo')
+      expect(textDiff.getChanges(div).length).toBe(1)
+    })
+  })
+
+  describe('acceptChange()', function () {
+
+    it('adds an accepted insertion to the original text', function () {
+      edit('foo bar baz')
+      expect(textDiff.acceptChange(changeOfType('insert').id)).toBe(true)
+      expect(textDiff.getOriginalText(div)).toBe('foo bar baz')
+      expect(textDiff.getChanges(div)).toEqual([])
+      expect(div.innerHTML).toBe('foo bar baz')
+    })
+
+    it('removes an accepted deletion from the original text', function () {
+      edit('foo')
+      textDiff.acceptChange(changeOfType('delete').id)
+      expect(textDiff.getOriginalText(div)).toBe('foo')
+      expect(div.innerHTML).toBe('foo')
+    })
+
+    it('returns false for an unknown change', function () {
+      expect(textDiff.acceptChange('unknown')).toBe(false)
+    })
+  })
+
+  describe('rejectChange()', function () {
+
+    it('removes a rejected insertion from the block', function () {
+      edit('foo bar baz')
+      textDiff.rejectChange(changeOfType('insert').id)
+      expect(div.innerHTML).toBe('foo bar')
+      expect(textDiff.getOriginalText(div)).toBe('foo bar')
+      expect(textDiff.getChanges(div)).toEqual([])
+    })
+
+    it('restores a rejected deletion in the block', function () {
+      edit('foo')
+      textDiff.rejectChange(changeOfType('delete').id)
+      expect(div.innerHTML).toBe('foo bar')
+      expect(textDiff.getChanges(div)).toEqual([])
+    })
+
+    it('triggers a change event', function () {
+      let changes = 0
+      editable.on('change', () => { changes++ })
+      edit('foo bar baz')
+      textDiff.rejectChange(changeOfType('insert').id)
+      expect(changes).toBe(1)
+    })
+  })
+
+  describe('acceptAll() and rejectAll()', function () {
+
+    it('accepts all changes', function () {
+      edit('xfoo baz')
+      textDiff.acceptAll(div)
+      expect(textDiff.getOriginalText(div)).toBe('xfoo baz')
+      expect(editable.getContent(div)).toBe('xfoo baz')
+    })
+
+    it('rejects all changes', function () {
+      edit('xfoo baz')
+      textDiff.rejectAll(div)
+      expect(editable.getContent(div)).toBe('foo bar')
+      expect(textDiff.getChanges(div)).toEqual([])
+    })
+  })
+
+  describe('textDiffUpdated event', function () {
+
+    it('notifies the pending changes', function () {
+      const updates = []
+      editable.on('textDiffUpdated', (host, changes) => updates.push(changes))
+      edit('foo bar baz')
+      textDiff.acceptChange(changeOfType('insert').id)
+      expect(updates.length).toBe(2)
+      expect(updates[0][0].value).toBe(' baz')
+      expect(updates[1]).toEqual([])
+    })
+
+    it('does not notify unchanged changes', function () {
+      let updates = 0
+      edit('foo bar baz')
+      editable.on('textDiffUpdated', () => { updates++ })
+      textDiff.computeAndApplyDiff(div)
+      expect(updates).toBe(0)
+    })
+  })
+})
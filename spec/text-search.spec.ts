@@ -1,6 +1,6 @@
 
 
-import {searchText, searchWord} from '../src/plugins/highlighting/text-search.js'
+import {expandReplacement, searchPattern, searchText, searchWord} from '../src/plugins/highlighting/text-search.js'
 
 describe('text-search:', function () {
 
@@ -55,4 +55,62 @@ describe('text-search:', function () {
       expect(matches[0].match).toBe(text)
     })
   })
+
+  describe('searchPattern()', function () {
+
+    it('ignores the case by default', function () {
+      const matches = searchPattern('Foo foo', 'foo')
+      expect(matches.map(m => m.startIndex)).toEqual([0, 4])
+    })
+
+    it('matches the case', function () {
+      const matches = searchPattern('Foo foo', 'foo', {caseSensitive: true})
+      expect(matches.map(m => m.startIndex)).toEqual([4])
+    })
+
+    it('matches whole words', function () {
+      const matches = searchPattern('cat concat cats cat.', 'cat', {wholeWord: true})
+      expect(matches.map(m => m.startIndex)).toEqual([0, 16])
+    })
+
+    it('escapes the query', function () {
+      expect(searchPattern('a.b axb', 'a.b').length).toBe(1)
+    })
+
+    it('matches a regular expression', function () {
+      const matches = searchPattern('a1 b22 c', '\\d+', {regex: true})
+      expect(matches.map(m => m.match)).toEqual(['1', '22'])
+    })
+
+    it('skips empty matches', function () {
+      expect(searchPattern('abc', 'x*', {regex: true})).toEqual([])
+    })
+  })
+
+  describe('expandReplacement()', function () {
+
+    function expand (text, regex, replacement) {
+      const expected = text.replace(regex, replacement)
+      const result = text.match(regex)
+      expect(text.slice(0, result.index) + expandReplacement(replacement, result) + text.slice(result.index + result[0].length)).toBe(expected)
+      return expected
+    }
+
+    it('expands capture groups', function () {
+      expect(expand('ab', /(a)(b)/, '$2$1')).toBe('ba')
+      expect(expand('ab', /(?<first>a)/, '[$<first>]')).toBe('[a]b')
+    })
+
+    it('expands the match and its surroundings', function () {
+      expect(expand('abc', /b/, "$$-$&-$`-$'")).toBe("a$-b-a-cc")
+    })
+
+    it('keeps patterns without a group', function () {
+      expect(expand('ab', /(a)/, '$12$2$0$<x>')).toBe('a2$2$0$<x>b')
+    })
+
+    it('uses the context of the match', function () {
+      expect(expand('xab', /(?<=x)(a)|^(b)/, '[$1]')).toBe('x[a]b')
+    })
+  })
 })
@@ -0,0 +1,169 @@
+import {Editable} from '../src/features.js'
+import Cursor from '../src/cursor.js'
+import {paste} from '../src/clipboard.js'
+import {applyInputRules} from '../src/input-rules.js'
+import {createElement, createRange} from '../src/util/dom.js'
+import {addNarrowSpaces, matchesLanguage} from '../src/plugins/typography/typography.js'
+
+const nnbsp = '\u202F'
+
+describe('Typography', function () {
+
+  describe('addNarrowSpaces()', function () {
+
+    it('inserts spaces before ; ! ?', function () {
+      expect(addNarrowSpaces('Quoi? Non! Oui; bien.')).toBe(`Quoi${nnbsp}? Non${nnbsp}! Oui${nnbsp}; bien.`)
+    })
+
+    it('replaces spaces before punctuation', function () {
+      expect(addNarrowSpaces('Quoi ? Non&nbsp;! Voici :')).toBe(`Quoi${nnbsp}? Non${nnbsp}! Voici${nnbsp}:`)
+    })
+
+    it('inserts spaces inside guillemets', function () {
+      expect(addNarrowSpaces('«Bonjour» et « salut »')).toBe(`«${nnbsp}Bonjour${nnbsp}» et «${nnbsp}salut${nnbsp}»`)
+    })
+
+    it('does not change times, urls and entities', function () {
+      const html = 'À 10:30 sur https://example.com/?q=1 &amp; <a href="/?a=1">lien</a>'
+      expect(addNarrowSpaces(html)).toBe(html)
+    })
+
+    it('does not add a second space', function () {
+      const text = `Quoi${nnbsp}? «${nnbsp}Oui${nnbsp}»`
+      expect(addNarrowSpaces(text)).toBe(text)
+    })
+
+    it('inserts spaces after markup', function () {
+      expect(addNarrowSpaces('<strong>Quoi</strong>?')).toBe(`<strong>Quoi</strong>${nnbsp}?`)
+    })
+  })
+
+  describe('matchesLanguage()', function () {
+
+    it('matches the language and its regional variants', function () {
+      expect(matchesLanguage('fr', ['fr'])).toBe(true)
+      expect(matchesLanguage('fr-CH', ['fr'])).toBe(true)
+      expect(matchesLanguage('fr-CA', ['fr-CH'])).toBe(false)
+      expect(matchesLanguage('en', ['fr'])).toBe(false)
+    })
+  })
+
+  describe('setupTypography()', function () {
+    let editable, host
+
+    beforeEach(function () {
+      host = createElement('<div lang="fr-CH"></div>')
+      document.body.appendChild(host)
+      editable = new Editable({defaultBehavior: false})
+      editable.add(host)
+    })
+
+    afterEach(function () {
+      editable.unload()
+      host.remove()
+    })
+
+    function type (html) {
+      host.innerHTML = html
+      const range = createRange()
+      range.selectNodeContents(host)
+      range.collapse(false)
+      return applyInputRules(host, editable.dispatcher.getInputRules(), new Cursor(host, range))
+    }
+
+    it('inserts spaces while typing', function () {
+      editable.setupTypography()
+      type('Quoi?')
+      expect(host.textContent).toBe(`Quoi${nnbsp}?`)
+      type('Voici :')
+      expect(host.textContent).toBe(`Voici${nnbsp}:`)
+      type('«B')
+      expect(host.textContent).toBe(`«${nnbsp}B`)
+      type('fin»')
+      expect(host.textContent).toBe(`fin${nnbsp}»`)
+    })
+
+    it('inserts the space before a smart quote guillemet with the next character', function () {
+      editable.setupTypography()
+      type('fin».')
+      expect(host.textContent).toBe(`fin${nnbsp}».`)
+    })
+
+    it('does not change colons without a space', function () {
+      editable.setupTypography()
+      expect(type('https:')).toBe(false)
+    })
+
+    it('does not insert spaces in other languages', function () {
+      host.setAttribute('lang', 'en')
+      editable.setupTypography()
+      expect(type('What?')).toBe(false)
+      expect(host.textContent).toBe('What?')
+    })
+
+    it('does not insert spaces while typing with typing: false', function () {
+      editable.setupTypography({typing: false})
+      expect(editable.dispatcher.getInputRules()).toEqual([])
+    })
+
+    it('does not change the configured input rules', function () {
+      editable.setupTypography()
+      expect(editable.config.inputRules).toEqual([])
+      expect(editable.dispatcher.getInputRules()).toEqual(editable.typography.inputRules)
+    })
+
+    function pasteHtml (html) {
+      const range = createRange()
+      range.selectNodeContents(host)
+      range.collapse(false)
+      return paste(host, new Cursor(host, range), html, {transforms: editable.pasteTransforms}).blocks
+    }
+
+    it('inserts spaces into pasted blocks', function () {
+      editable.setupTypography()
+      expect(pasteHtml('<p>Quoi?</p><p>«Oui»</p>')).toEqual([`Quoi${nnbsp}?`, `«${nnbsp}Oui${nnbsp}»`])
+    })
+
+    it('inserts spaces into pasted blocks of the configured profiles', function () {
+      editable.pasteTransforms.addProfile('teaser')
+      editable.setupTypography({profiles: ['teaser']})
+      expect(pasteHtml('<p>Quoi?</p>')).toEqual(['Quoi?'])
+      host.setAttribute('data-paste-profile', 'teaser')
+      expect(pasteHtml('<p>Quoi?</p>')).toEqual([`Quoi${nnbsp}?`])
+    })
+
+    it('does not insert spaces into pasted blocks with paste: false', function () {
+      editable.setupTypography({paste: false})
+      expect(pasteHtml('<p>Quoi?</p>')).toEqual(['Quoi?'])
+    })
+
+    describe('with whitespace highlighting', function () {
+
+      function highlightedWhitespace () {
+        editable.highlighting.highlight(host)
+        return host.querySelectorAll('[data-highlight="whitespace"]').length
+      }
+
+      beforeEach(function () {
+        host.innerHTML = `Quoi${nnbsp}? a${nnbsp}b <span lang="en">What${nnbsp}?</span>`
+      })
+
+      it('does not highlight the inserted spaces', function () {
+        editable.setupTypography()
+        editable.setupHighlighting({spellcheck: {spellcheckService: (text, callback) => callback([])}})
+        expect(highlightedWhitespace()).toBe(2)
+      })
+
+      it('does not highlight the inserted spaces when highlighting was set up first', function () {
+        editable.setupHighlighting({spellcheck: {spellcheckService: (text, callback) => callback([])}})
+        editable.setupTypography()
+        expect(highlightedWhitespace()).toBe(2)
+      })
+
+      it('highlights the spaces without typography', function () {
+        editable.setupHighlighting({spellcheck: {spellcheckService: (text, callback) => callback([])}})
+        expect(highlightedWhitespace()).toBe(3)
+      })
+    })
+  })
+})
@@ -1,47 +1,102 @@
 import config from './config.js'
-import type {Config} from './config.js'
+import type {Config, PastedHtmlRules} from './config.js'
 import * as string from './util/string.js'
 import * as nodeType from './node-type.js'
 import * as quotes from './quotes.js'
+import {getQuoteStyle} from './quote-styles.js'
+import * as markdown from './markdown.js'
+import {processPasteSource} from './paste-sources.js'
+import * as content from './content.js'
+import {getDocument, setDocument} from './document-model.js'
 import {isPlainTextBlock} from './block.js'
+import {getLevel, isList, isListItem} from './list.js'
+import {getLang} from './util/dom.js'
+import error from './util/error.js'
 import type Cursor from './cursor.js'
 import type Selection from './selection.js'
+import type MultiBlockSelection from './multi-block-selection.js'
+import type {EditableDocument} from './document-model.js'
+import type PasteTransforms from './paste-transforms.js'
+import type {PasteContext} from './paste-transforms.js'
 
-let allowedElements: Record<string, Record<string, boolean>>
-let allowedPlainTextElements: Record<string, Record<string, boolean>>
-let requiredAttributes: Record<string, string[]>
-let transformElements: Record<string, string>
-let blockLevelElements: Record<string, boolean>
-let replaceQuotes: {quotes?: string[], singleQuotes?: string[], apostrophe?: string}
-let splitIntoBlocks: Record<string, boolean>
-let blacklistedElements: string[]
 const whitespaceOnly = /^\s*$/
 const blockPlaceholder = '<!-- BLOCK -->'
-let keepInternalRelativeLinks: boolean
+const listItemPlaceholder = /^<!-- LIST-ITEM:(\d+) -->/
+
+// A pasted block. List items have the nesting level
+// of the item (0 for items of the outermost list).
+export interface ParsedBlock {
+  html: string
+  listLevel?: number
+}
+
+// The clipboard type of copied blocks as JSON. Editables paste these
+// blocks instead of parsing the html, so no formatting gets lost.
+export const blocksMimeType = 'application/x-editable-blocks+json'
+
+// A copied block: the document of the copied content (see document-model.ts)
+// and the nesting level for list items.
+export interface CopiedBlock extends EditableDocument {
+  listLevel?: number
+}
+
+// The pastedHtmlRules prepared for parsing.
+interface CompiledRules {
+  allowedElements: Record<string, Record<string, boolean>>
+  allowedPlainTextElements: Record<string, Record<string, boolean>>
+  requiredAttributes: Record<string, string[]>
+  transformElements: Record<string, string>
+  blockLevelElements: Record<string, boolean>
+  splitIntoBlocks: Record<string, boolean>
+  blacklistedElements: string[]
+  keepInternalRelativeLinks: boolean
+  replaceQuotes: {quotes?: string[], singleQuotes?: string[], apostrophe?: string}
+}
 
 interface FilterOptions {
+  rules: CompiledRules
   allowedElements: Record<string, Record<string, boolean>>
   keepInternalRelativeLinks: boolean
 }
 
+let defaultRules: CompiledRules
+
 updateConfig(config)
 export function updateConfig (conf: Config): void {
-  const rules = conf.pastedHtmlRules
-  allowedElements = rules.allowedElements || {}
-  allowedPlainTextElements = rules.allowedPlainTextElements || {}
-  requiredAttributes = rules.requiredAttributes || {}
-  transformElements = rules.transformElements || {}
-  blacklistedElements = rules.blacklistedElements || []
-  keepInternalRelativeLinks = rules.keepInternalRelativeLinks || false
-  replaceQuotes = rules.replaceQuotes || {}
-
-  blockLevelElements = {}
+  defaultRules = compileRules(conf.pastedHtmlRules)
+}
+
+function compileRules (rules: PastedHtmlRules): CompiledRules {
+  const blockLevelElements: Record<string, boolean> = {}
   rules.blockLevelElements.forEach((name: string) => { blockLevelElements[name] = true })
-  splitIntoBlocks = {}
+  const splitIntoBlocks: Record<string, boolean> = {}
   rules.splitIntoBlocks.forEach((name: string) => { splitIntoBlocks[name] = true })
+
+  return {
+    allowedElements: rules.allowedElements || {},
+    allowedPlainTextElements: rules.allowedPlainTextElements || {},
+    requiredAttributes: rules.requiredAttributes || {},
+    transformElements: rules.transformElements || {},
+    blockLevelElements,
+    splitIntoBlocks,
+    blacklistedElements: rules.blacklistedElements || [],
+    keepInternalRelativeLinks: rules.keepInternalRelativeLinks || false,
+    replaceQuotes: rules.replaceQuotes || {}
+  }
 }
 
-export function paste (block: HTMLElement, cursor: Cursor | Selection, clipboardContent: string): {blocks: string[], cursor: Cursor | Selection} {
+// @param {Boolean} options.markdown Convert plain text containing
+//   Markdown syntax into html before it is parsed.
+// @param {String} options.copiedBlocks The JSON of blocks copied from an
+//   editable (see blocksMimeType). Used instead of the clipboardContent.
+// @param {PasteTransforms} options.transforms The paste pipeline with the
+//   transforms and rules of the paste profile of the block.
+// @param {Boolean} options.smartQuotes Replace the quotes with the quote
+//   style of the language of the block (see quote-styles.ts).
+//
+// @returns {Object} The pasted blocks and the nesting level of each block
+//   that was a list item (undefined for other blocks).
+export function paste (block: HTMLElement, cursor: Cursor | Selection, clipboardContent: string, {markdown: detectMarkdown = false, copiedBlocks, transforms, smartQuotes = false}: {markdown?: boolean, copiedBlocks?: string, transforms?: PasteTransforms, smartQuotes?: boolean} = {}): {blocks: string[], listLevels: Array<number | undefined>, cursor: Cursor | Selection} {
   const document = block.ownerDocument
   block.setAttribute(config.pastingAttribute, 'true')
 
@@ -54,13 +109,130 @@ export function paste (block: HTMLElement, cursor: Cursor | Selection, clipboard
 
   // Create a placeholder to help parse HTML
   const pasteHolder = document.createElement('div')
-  pasteHolder.innerHTML = clipboardContent
+  if (detectMarkdown && markdown.isMarkdown(clipboardContent)) {
+    pasteHolder.innerHTML = markdownToHtml(clipboardContent)
+  } else {
+    pasteHolder.innerHTML = clipboardContent
+    // Convert the style based formatting of Word, Google Docs or LibreOffice
+    processPasteSource(pasteHolder, clipboardContent)
+  }
 
   const isPlainText = isPlainTextBlock(block)
-  const blocks = parseContent(pasteHolder, {plainText: isPlainText})
+  const lang = getLang(block)
+  const profile = transforms ? transforms.getProfileName(block) : 'default'
+  const context: PasteContext = {block, profile, plainText: isPlainText, lang}
+
+  const rules = transforms?.getRules(profile)
+  const quotesLang = smartQuotes ? lang : undefined
+  const copied = copiedBlocks ? parseCopiedBlocks(copiedBlocks, {plainText: isPlainText}) : undefined
+  let parsedBlocks: ParsedBlock[]
+  if (copied) {
+    // Any page can write copied blocks, so they are filtered like pasted html.
+    parsedBlocks = copied.flatMap(({html, listLevel}) => {
+      const blockHolder = document.createElement('div')
+      blockHolder.innerHTML = html
+      transforms?.transformDom(blockHolder, context)
+      return parseBlocks(blockHolder, {plainText: isPlainText, lang: quotesLang, rules})
+        .map((parsed) => listLevel === undefined ? parsed : {...parsed, listLevel})
+    })
+  } else {
+    transforms?.transformDom(pasteHolder, context)
+    parsedBlocks = parseBlocks(pasteHolder, {plainText: isPlainText, lang: quotesLang, rules})
+  }
+  if (transforms) parsedBlocks = transforms.transformBlocks(parsedBlocks, context)
 
   block.removeAttribute(config.pastingAttribute)
-  return {blocks, cursor}
+  return {
+    blocks: parsedBlocks.map(({html}) => html),
+    listLevels: parsedBlocks.map(({listLevel}) => listLevel),
+    cursor
+  }
+}
+
+// Write the content of a selection to the clipboard without the internal
+// elements and characters of editable (e.g. highlights or zero width spaces):
+// - 'text/html' with every block wrapped in an element like its host
+//   (only for selections across several blocks)
+// - 'text/plain' with the blocks separated by newlines
+// - the blocks as JSON (see blocksMimeType)
+//
+// @param {Boolean} options.blocks Set to false to omit the JSON.
+export function copy (selection: Selection | MultiBlockSelection, clipboardData: DataTransfer, {blocks = true}: {blocks?: boolean} = {}): void {
+  const isMultiBlock = 'hosts' in selection
+  const parts = (isMultiBlock ? selection.getSelections() : [selection]).map(({host, range}) => {
+    const container = host.ownerDocument.createElement('div')
+    container.innerHTML = content.extractContent(range.cloneContents())
+    return {host, container, doc: getDocument(container)}
+  })
+
+  clipboardData.setData('text/html', isMultiBlock
+    ? wrapCopiedBlocks(parts)
+    : parts[0].container.innerHTML
+  )
+  clipboardData.setData('text/plain', parts.map(({doc}) => doc.text).join('\n'))
+  if (blocks) {
+    const copiedBlocks: CopiedBlock[] = parts.map(({host, doc}) => {
+      return isListItem(host) ? {...doc, listLevel: getLevel(host)} : doc
+    })
+    clipboardData.setData(blocksMimeType, JSON.stringify(copiedBlocks))
+  }
+}
+
+// Parse the JSON of copied blocks (see copy()).
+//
+// @returns {Array of Object} The blocks or undefined for invalid JSON.
+export function parseCopiedBlocks (json: string, {plainText = false}: {plainText?: boolean} = {}): ParsedBlock[] | undefined {
+  let copiedBlocks: CopiedBlock[]
+  try {
+    copiedBlocks = JSON.parse(json)
+  } catch (err) {
+    error('Error in parseCopiedBlocks: The copied blocks are not valid JSON.')
+    return undefined
+  }
+  if (!Array.isArray(copiedBlocks) || !copiedBlocks.every(isCopiedBlock)) {
+    error('Error in parseCopiedBlocks: The copied blocks do not match the document model.')
+    return undefined
+  }
+
+  return copiedBlocks.map(({text, marks, listLevel}) => {
+    const container = document.createElement('div')
+    setDocument(container, {text, marks: plainText ? [] : marks})
+    return listLevel === undefined ? {html: container.innerHTML} : {html: container.innerHTML, listLevel}
+  })
+}
+
+function isCopiedBlock (block: CopiedBlock): boolean {
+  return typeof block?.text === 'string' && Array.isArray(block.marks) &&
+    block.marks.every((mark) => typeof mark?.type === 'string')
+}
+
+// Wrap the copied parts in an element with the tag name of their host.
+// Consecutive list items are wrapped in a list.
+function wrapCopiedBlocks (parts: Array<{host: HTMLElement, container: HTMLElement}>): string {
+  const wrapper = document.createElement('div')
+  for (const {host, container} of parts) {
+    const elem = document.createElement(host.nodeName.toLowerCase())
+    elem.innerHTML = container.innerHTML
+    if (!isListItem(host)) {
+      wrapper.appendChild(elem)
+      continue
+    }
+
+    let listElem = wrapper.lastElementChild
+    if (!isList(listElem)) {
+      listElem = document.createElement(host.parentElement?.nodeName.toLowerCase() || 'ul')
+      wrapper.appendChild(listElem)
+    }
+    listElem!.appendChild(elem)
+  }
+  return wrapper.innerHTML
+}
+
+// Wrap every Markdown block in a paragraph so parseContent splits them up.
+function markdownToHtml (text: string): string {
+  return markdown.fromMarkdown(text)
+    .map((block) => `<p>${block}</p>`)
+    .join('')
 }
 
 /**
@@ -71,25 +243,41 @@ export function paste (block: HTMLElement, cursor: Cursor | Selection, clipboard
  *   www.livindocs.io/internalLink -> /internalLink
  *
  * @param {DOM node} A container where the pasted content is located.
+ * @param {String} options.lang The language of the quotes in the pasted
+ *   content (see quote-styles.ts).
+ * @param {Object} options.rules The pastedHtmlRules to use instead of the
+ *   global config (see paste-transforms.ts).
  * @returns {Array of Strings} An array of cleaned innerHTML like strings.
  */
-export function parseContent (element: HTMLElement, {plainText = false}: {plainText?: boolean} = {}): string[] {
+export function parseContent (element: HTMLElement, options: {plainText?: boolean, lang?: string, rules?: PastedHtmlRules} = {}): string[] {
+  return parseBlocks(element, options).map(({html}) => html)
+}
+
+// Same as parseContent() but every list item is returned
+// with its nesting level.
+export function parseBlocks (element: HTMLElement, {plainText = false, lang, rules: pastedHtmlRules}: {plainText?: boolean, lang?: string, rules?: PastedHtmlRules} = {}): ParsedBlock[] {
+  const rules = pastedHtmlRules ? compileRules(pastedHtmlRules) : defaultRules
   const options: FilterOptions = {
-    allowedElements: plainText ? allowedPlainTextElements : allowedElements,
-    keepInternalRelativeLinks: plainText ? false : keepInternalRelativeLinks
+    rules,
+    allowedElements: plainText ? rules.allowedPlainTextElements : rules.allowedElements,
+    keepInternalRelativeLinks: plainText ? false : rules.keepInternalRelativeLinks
   }
 
   // Filter pasted content
   return filterHtmlElements(element, options)
   // Handle Blocks
     .split(blockPlaceholder)
-    .map((entry: string) => string.trim(cleanWhitespace(replaceAllQuotes(entry))))
-    .filter((entry: string) => !whitespaceOnly.test(entry))
+    .map((entry: string) => {
+      const listItem = listItemPlaceholder.exec(entry)
+      const html = string.trim(cleanWhitespace(replaceAllQuotes(listItem ? entry.slice(listItem[0].length) : entry, rules, lang)))
+      return listItem ? {html, listLevel: Number(listItem[1])} : {html}
+    })
+    .filter(({html}) => !whitespaceOnly.test(html))
 }
 
 function filterHtmlElements (elem: HTMLElement, options: FilterOptions): string {
   return Array.from(elem.childNodes).reduce<string>((content: string, child: Node) => {
-    if (blacklistedElements.indexOf(child.nodeName.toLowerCase()) !== -1) {
+    if (options.rules.blacklistedElements.indexOf(child.nodeName.toLowerCase()) !== -1) {
       return ''
     }
 
@@ -119,10 +307,10 @@ function filterHtmlElements (elem: HTMLElement, options: FilterOptions): string
 
 function conditionalNodeWrap (child: HTMLElement, content: string, options: FilterOptions): string {
   let nodeName = child.nodeName.toLowerCase()
-  nodeName = transformNodeName(nodeName)
+  nodeName = transformNodeName(nodeName, options.rules)
 
   if (shouldKeepNode(nodeName, child, options)) {
-    const attributes = filterAttributes(nodeName, child)
+    const attributes = filterAttributes(nodeName, child, options.rules)
 
     if (nodeName === 'br') return `<${nodeName + attributes}>`
 
@@ -133,42 +321,60 @@ function conditionalNodeWrap (child: HTMLElement, content: string, options: Filt
     return content
   }
 
-  if (splitIntoBlocks[nodeName]) {
+  // Every list item is a block, marked with its nesting level.
+  if (nodeName === 'li') {
+    return `${blockPlaceholder}<!-- LIST-ITEM:${getListLevel(child)} -->${content}${blockPlaceholder}`
+  }
+
+  if (options.rules.splitIntoBlocks[nodeName]) {
     return blockPlaceholder + content + blockPlaceholder
   }
 
   // prevent missing whitespace between text when block-level
   // elements are removed.
-  if (blockLevelElements[nodeName]) return `${content} `
+  if (options.rules.blockLevelElements[nodeName]) return `${content} `
 
   return content
 }
 
+function getListLevel (item: HTMLElement): number {
+  let level = 0
+  for (let parent = item.parentElement?.parentElement; parent; parent = parent.parentElement) {
+    if (isList(parent)) level += 1
+  }
+  return level
+}
+
 // returns string of concatenated attributes e.g. 'target="_blank" rel="nofollow" href="/test.com"'
-function filterAttributes (nodeName: string, node: Element): string {
+function filterAttributes (nodeName: string, node: Element, rules: CompiledRules): string {
   return Array.from(node.attributes).reduce<string>((attributes: string, attr: Attr) => {
     const name = attr.name
     const value = attr.value
-    if (allowedElements[nodeName]?.[name] && value) {
+    if (rules.allowedElements[nodeName]?.[name] && isAllowedValue(value)) {
       return `${attributes} ${name}="${value}"`
     }
     return attributes
   }, '')
 }
 
-function transformNodeName (nodeName: string): string {
-  return transformElements[nodeName] || nodeName
+// Empty attributes and urls running script are removed.
+function isAllowedValue (value: string | null): boolean {
+  return !!value && !string.isScriptUrl(value)
 }
 
-function hasRequiredAttributes (nodeName: string, node: Element): boolean {
-  const requiredAttrs = requiredAttributes[nodeName]
+function transformNodeName (nodeName: string, rules: CompiledRules): string {
+  return rules.transformElements[nodeName] || nodeName
+}
+
+function hasRequiredAttributes (nodeName: string, node: Element, rules: CompiledRules): boolean {
+  const requiredAttrs = rules.requiredAttributes[nodeName]
   if (!requiredAttrs) return true
 
-  return !requiredAttrs.some((name: string) => !node.getAttribute(name))
+  return requiredAttrs.every((name: string) => isAllowedValue(node.getAttribute(name)))
 }
 
 function shouldKeepNode (nodeName: string, node: Element, options: FilterOptions): boolean {
-  return !!options.allowedElements[nodeName] && hasRequiredAttributes(nodeName, node)
+  return !!options.allowedElements[nodeName] && hasRequiredAttributes(nodeName, node, options.rules)
 }
 
 function cleanWhitespace (str: string): string {
@@ -181,10 +387,22 @@ function cleanWhitespace (str: string): string {
     ))
 }
 
-function replaceAllQuotes (str: string): string {
-  if (replaceQuotes.quotes || replaceQuotes.singleQuotes || replaceQuotes.apostrophe) {
-    return quotes.replaceAllQuotes(str, replaceQuotes)
+function replaceAllQuotes (str: string, rules: CompiledRules, lang?: string): string {
+  const quoteRules = getReplaceQuotes(rules, lang)
+  if (quoteRules.quotes || quoteRules.singleQuotes || quoteRules.apostrophe) {
+    return quotes.replaceAllQuotes(str, quoteRules)
   }
 
   return str
 }
+
+// The configured replaceQuotes take precedence over the quote style of
+// the language. A rule set to undefined disables the replacement.
+function getReplaceQuotes ({replaceQuotes}: CompiledRules, lang?: string): {quotes?: string[], singleQuotes?: string[], apostrophe?: string} {
+  const style = getQuoteStyle(lang)
+  return {
+    quotes: 'quotes' in replaceQuotes ? replaceQuotes.quotes : style?.quotes,
+    singleQuotes: 'singleQuotes' in replaceQuotes ? replaceQuotes.singleQuotes : style?.singleQuotes,
+    apostrophe: 'apostrophe' in replaceQuotes ? replaceQuotes.apostrophe : style?.apostrophe
+  }
+}
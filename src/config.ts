@@ -29,6 +29,7 @@ export interface Config {
   editableClass: string
   editableDisabledClass: string
   pastingAttribute: string
+  pasteProfileAttribute: string
   trimLeadingAndTrailingWhitespaces: boolean
   boldMarkup: MarkupConfig
   italicMarkup: MarkupConfig
@@ -43,6 +44,7 @@ const config: Config = {
   editableClass: 'js-editable',
   editableDisabledClass: 'js-editable-disabled',
   pastingAttribute: 'data-editable-is-pasting',
+  pasteProfileAttribute: 'data-paste-profile',
   trimLeadingAndTrailingWhitespaces: true,
   boldMarkup: {
     type: 'tag',
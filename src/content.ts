@@ -4,6 +4,7 @@ import * as parser from './parser.js'
 import * as string from './util/string.js'
 import {createElement, createRange, getNodes, normalizeBoundaries, splitBoundaries, containsNodeText} from './util/dom.js'
 import config from './config.js'
+import {nestListsInItems} from './list.js'
 import {unwrapElement, type MaybeWrapped} from './dom-compat.js'
 
 function restoreRange (host: HTMLElement, range: Range, func: () => void): Range | undefined {
@@ -88,6 +89,7 @@ export function cleanInternals (element: HTMLElement): void {
 // Extracts the content from a host element.
 // Does not touch or change the host. Just returns
 // the content and removes elements marked for removal by editable.
+// Nested lists are moved into their parent item (see list.ts).
 //
 // @param {DOM node or document fragment} Element where to clean out the innerHTML.
 // If you pass a document fragment it will be empty after this call.
@@ -105,6 +107,7 @@ export function extractContent (element: HTMLElement | DocumentFragment | null |
   const clone = document.createElement('div')
   clone.innerHTML = innerHtml
   unwrapInternalNodes(clone, keepUiElements)
+  nestListsInItems(clone)
 
   // Remove line breaks at the beginning of a content block
   removeWhitespaces(clone, 'firstChild')
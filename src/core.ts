@@ -4,7 +4,14 @@ import * as parser from './parser.js'
 import * as block from './block.js'
 import * as content from './content.js'
 import * as clipboard from './clipboard.js'
+import * as markdown from './markdown.js'
+import * as documentModel from './document-model.js'
+import * as inputRules from './input-rules.js'
+import * as list from './list.js'
+import {quoteStyles} from './quote-styles.js'
 import Dispatcher from './dispatcher.js'
+import History from './history.js'
+import PasteTransforms from './paste-transforms.js'
 import Cursor from './cursor.js'
 import createDefaultEvents from './create-default-events.js'
 import {textNodesUnder, getTextNodeAndRelativeOffset} from './util/element.js'
@@ -12,16 +19,29 @@ import {binaryCursorSearch, BinaryCursorSearchResult} from './util/binary_search
 import {domArray, createRange, nodeContainsRange} from './util/dom.js'
 import type {Config} from './config.js'
 import type {SmartQuotesConfig} from './smartQuotes.js'
+import type {EditableDocument} from './document-model.js'
+import type {KeymapBindings, KeymapOptions} from './keymap.js'
+import type {InputRule} from './input-rules.js'
 import type {
   EditableEvent,
   EditableEventHandler,
   EditableEventMap,
   EventOff
 } from './event-types.js'
+export type {ParsedBlock} from './clipboard.js'
+export type {DocumentMark, EditableDocument, MarkType} from './document-model.js'
+export type {InputRule, InputRuleContext} from './input-rules.js'
+export type {KeymapBindings, KeymapCommand, KeymapHandler, KeymapOptions} from './keymap.js'
+export type {PasteBlocksTransform, PasteContext, PasteDomTransform, PasteTransform, PasteTransformOptions} from './paste-transforms.js'
+export type {QuoteStyle} from './quote-styles.js'
 export type {
+  Annotation,
+  AnnotationComment,
+  AnnotationOptions,
   HighlightOptions,
   MonitoredHighlightingConfig,
   SpellcheckSetupConfig,
+  TextDiffChange,
   TextDiffOptions,
   TextRange
 } from './plugin-types.js'
@@ -34,6 +54,9 @@ export interface EditableConfig {
   smartQuotes?: boolean
   quotes?: SmartQuotesConfig['quotes']
   singleQuotes?: SmartQuotesConfig['singleQuotes']
+  pasteMarkdown?: boolean
+  copyBlocks?: boolean
+  inputRules?: InputRule[]
 }
 
 export interface EnableOptions {
@@ -48,8 +71,13 @@ export class Editable {
   public win: Window
   public editableSelector: string
   public dispatcher: Dispatcher
+  public history: History
+  public pasteTransforms: PasteTransforms
   static parser: typeof parser
   static content: typeof content
+  static markdown: typeof markdown
+  static inputRules: typeof inputRules
+  static quoteStyles: typeof quoteStyles
 
   constructor(instanceConfig?: EditableConfig) {
     const defaultInstanceConfig: Required<EditableConfig> = {
@@ -59,17 +87,22 @@ export class Editable {
       browserSpellcheck: true,
       smartQuotes: false,
       quotes: [],
-      singleQuotes: []
+      singleQuotes: [],
+      pasteMarkdown: false,
+      copyBlocks: true,
+      inputRules: []
     }
 
     this.config = Object.assign(defaultInstanceConfig, instanceConfig)
     this.win = this.config.window
     this.editableSelector = `.${config.editableClass}`
 
+    this.pasteTransforms = new PasteTransforms()
     this.dispatcher = new Dispatcher(this)
     if (this.config.defaultBehavior === true) {
       this.dispatcher.on(createDefaultEvents(this))
     }
+    this.history = new History(this)
   }
 
   static getGlobalConfig(): Config {
@@ -118,6 +151,7 @@ export class Editable {
     const targets = domArray(target || `.${config.editableDisabledClass}`, this.win.document)
 
     for (const element of targets) {
+      if (list.isListItem(element)) list.unnestLists(element)
       block.init(element, {normalize, plainText, shouldSpellcheck})
       this.dispatcher.notify('init', element)
     }
@@ -207,6 +241,16 @@ export class Editable {
     return content.extractContent(element)
   }
 
+  // Get the content of a block as text with an array of marks
+  // for the formatting (see document-model.ts).
+  getDocument(element: HTMLElement): EditableDocument {
+    return documentModel.getDocument(element)
+  }
+
+  setDocument(element: HTMLElement, doc: EditableDocument): void {
+    documentModel.setDocument(element, doc)
+  }
+
   appendTo(inputElement: HTMLElement | string, contentToAppend: string | DocumentFragment): Cursor {
     const element = content.adoptElement(inputElement, this.win.document)
 
@@ -243,6 +287,15 @@ export class Editable {
     return undefined
   }
 
+  // True while an IME composition (e.g. Japanese or Chinese input) is active.
+  // Plugins must not change the DOM of a block until the composition ends
+  // (see the compositionEnd event).
+  //
+  // @param {HTMLElement} Only check this block (optional).
+  isComposing(block?: HTMLElement): boolean {
+    return this.dispatcher.isComposing(block)
+  }
+
   on<TEventName extends EditableEvent>(event: TEventName, handler: EditableEventHandler<TEventName>): this {
     this.dispatcher.on(event, handler)
     return this
@@ -253,6 +306,15 @@ export class Editable {
     return this
   }) as EventOff<EditableEventMap, Editable>
 
+  // Bind key combinations like 'Mod-u' or 'Alt-ArrowUp' to a named command
+  // ('toggleBold', 'toggleEmphasis', 'toggleUnderline', 'undo', 'redo',
+  // 'moveBlockUp', 'moveBlockDown') or a handler function. The bindings take
+  // precedence over the default bindings, null turns a combination off.
+  // Returns a function to remove the bindings again.
+  keymap(bindings: KeymapBindings, options?: KeymapOptions): () => void {
+    return this.dispatcher.keymap.add(bindings, options)
+  }
+
   unload(): this {
     this.dispatcher.unload()
     return this
@@ -285,11 +347,15 @@ export class Editable {
 // Expose modules and editable
 Editable.parser = parser
 Editable.content = content
+Editable.markdown = markdown
+Editable.inputRules = inputRules
+Editable.quoteStyles = quoteStyles
 
 // Set up callback functions for several events.
 const eventNames: EditableEvent[] = ['focus', 'blur', 'flow', 'selection', 'cursor', 'newline',
   'insert', 'split', 'merge', 'empty', 'change', 'switch',
-  'move', 'clipboard', 'paste', 'spellcheckUpdated', 'selectToBoundary']
+  'move', 'clipboard', 'paste', 'pasteFiles', 'spellcheckUpdated', 'textDiffUpdated', 'annotationMoved',
+  'annotationOrphaned', 'selectToBoundary', 'indent', 'outdent', 'compositionEnd']
 
 eventNames.forEach((name) => {
   // Generate a callback function to subscribe to an event.
@@ -2,10 +2,13 @@ import * as parser from './parser.js'
 import * as content from './content.js'
 import log from './util/log.js'
 import * as block from './block.js'
+import * as list from './list.js'
 import * as nodeType from './node-type.js'
+import {createRangeFromCharacterRange, toCharacterRange} from './util/dom.js'
 import type {Editable} from './core.js'
-import type Cursor from './cursor.js'
+import Cursor from './cursor.js'
 import type Selection from './selection.js'
+import type MultiBlockSelection from './multi-block-selection.js'
 
 /**
  * Creates the default behavior implementations for dispatcher events.
@@ -39,7 +42,7 @@ export default function createDefaultBehavior (editable: Editable) {
       content.cleanInternals(element)
     },
 
-    selection (element: HTMLElement, selection: Selection): void {
+    selection (element: HTMLElement, selection: Selection | MultiBlockSelection): void {
       log(selection ? 'Default selection behavior' : 'Default selection empty behavior')
     },
 
@@ -48,86 +51,120 @@ export default function createDefaultBehavior (editable: Editable) {
     },
 
     newline (element: HTMLElement, cursor: Cursor): void {
-      // When the cursor is at the text end, we'll need to add an empty text node
-      // after the br tag to ensure that the cursor shows up on the next line
-      if (cursor.isAtTextEnd()) {
-        const br = document.createElement('br')
-        cursor.insertBefore(br)
-
-        // Only append a zero width space if there's none after the br tag
-        // We don't need to remove them as they get cleaned up on blur
-        const nextSibling = br.nextSibling
-        if (
-          nextSibling?.nodeType !== nodeType.textNode ||
-          (nextSibling as Text).textContent?.[0] !== '\uFEFF'
-        ) {
-          cursor.insertAfter(document.createTextNode('\uFEFF'))
+      editable.history.transact([element], () => {
+        // When the cursor is at the text end, we'll need to add an empty text node
+        // after the br tag to ensure that the cursor shows up on the next line
+        if (cursor.isAtTextEnd()) {
+          const br = document.createElement('br')
+          cursor.insertBefore(br)
+
+          // Only append a zero width space if there's none after the br tag
+          // We don't need to remove them as they get cleaned up on blur
+          const nextSibling = br.nextSibling
+          if (
+            nextSibling?.nodeType !== nodeType.textNode ||
+            (nextSibling as Text).textContent?.[0] !== '\uFEFF'
+          ) {
+            cursor.insertAfter(document.createTextNode('\uFEFF'))
+          }
+        } else {
+          cursor.insertBefore(document.createElement('br'))
         }
-      } else {
-        cursor.insertBefore(document.createElement('br'))
-      }
 
-      cursor.setVisibleSelection()
+        cursor.setVisibleSelection()
+      })
     },
 
     insert (element: HTMLElement, direction: string, cursor: Cursor): void {
-      const newElement = element.cloneNode(false) as HTMLElement
-      if (newElement.id) newElement.removeAttribute('id')
+      editable.history.transact([element], () => {
+        const newElement = element.cloneNode(false) as HTMLElement
+        if (newElement.id) newElement.removeAttribute('id')
 
-      if (direction === 'before') {
-        element.parentNode?.insertBefore(newElement, element)
-      } else {
-        element.parentNode?.insertBefore(newElement, element.nextSibling)
-      }
+        if (direction === 'before') {
+          element.parentNode?.insertBefore(newElement, element)
+        } else {
+          element.parentNode?.insertBefore(newElement, element.nextSibling)
+        }
 
-      editable.createCursorAtEnd(newElement)?.setVisibleSelection()
+        editable.createCursorAtEnd(newElement)?.setVisibleSelection()
+      })
     },
 
     split (element: HTMLElement, before: string, after: string, cursor: Cursor): void {
-      const fragment = content.createFragmentFromString(before)
-      const newNode = element.cloneNode(false) as HTMLElement
-      newNode.appendChild(fragment)
-
-      const parent = element.parentNode
-      if (parent) {
-        parent.insertBefore(newNode, element)
-      }
+      editable.history.transact([element], () => {
+        const fragment = content.createFragmentFromString(before)
+        const newNode = element.cloneNode(false) as HTMLElement
+        newNode.appendChild(fragment)
+
+        const parent = element.parentNode
+        if (parent) {
+          parent.insertBefore(newNode, element)
+        }
 
-      element.innerHTML = after
-      content.tidyHtml(newNode)
-      content.tidyHtml(element)
+        element.innerHTML = after
+        content.tidyHtml(newNode)
+        content.tidyHtml(element)
 
-      cursor.setVisibleSelection()
+        cursor.setVisibleSelection()
+      })
     },
 
     merge (element: HTMLElement, direction: string, cursor: Cursor): void {
-      const target = direction === 'before'
-        ? element.previousElementSibling
-        : element.nextElementSibling
+      const rootList = list.isListItem(element) ? list.getRootList(element) : undefined
+      let target: Element | null | undefined
+      let targetList: HTMLElement | undefined
+      if (rootList) {
+        target = list.getAdjacentItem(element, direction as 'before' | 'after')
+      } else {
+        target = direction === 'before'
+          ? element.previousElementSibling
+          : element.nextElementSibling
+        // A block next to a list merges with the last or first item
+        if (list.isList(target)) {
+          targetList = target as HTMLElement
+          const items = targetList.querySelectorAll('li')
+          target = direction === 'before' ? items[items.length - 1] : items[0]
+        }
+      }
 
       if (!target) return
 
-      const targetContent = content.extractContent(target as HTMLElement, false)
-      const elementContent = content.extractContent(element, false)
-
-      // Calculate text lengths before merging to position cursor correctly.
-      // Reuse one parse operation per content string.
-      const targetTextLength = content.createFragmentFromString(targetContent).textContent?.length || 0
-      const elementTextLength = content.createFragmentFromString(elementContent).textContent?.length || 0
-
-      const mergedContent = direction === 'before'
-        ? targetContent + elementContent
-        : elementContent + targetContent
-
-      element.innerHTML = mergedContent
-      target.remove()
-
-      // Position cursor at the merge boundary
-      const cursorOffset = direction === 'before'
-        ? targetTextLength
-        : elementTextLength
-
-      editable.createCursorAtCharacterOffset({element, offset: cursorOffset})
+      const blocks = direction === 'before'
+        ? [(targetList || target) as HTMLElement, element]
+        : [element, (targetList || target) as HTMLElement]
+
+      // The content of a block after a list is appended to the last item.
+      const [merged, removed] = targetList && direction === 'before'
+        ? [target as HTMLElement, element]
+        : [element, target as HTMLElement]
+
+      // Merging list items can leave an empty nested list behind,
+      // so the whole list is recorded.
+      const mergedList = rootList || targetList
+      editable.history.transact(rootList ? [rootList] : blocks, () => {
+        const targetContent = content.extractContent(target as HTMLElement, false)
+        const elementContent = content.extractContent(element, false)
+
+        // Calculate text lengths before merging to position cursor correctly.
+        // Reuse one parse operation per content string.
+        const targetTextLength = content.createFragmentFromString(targetContent).textContent?.length || 0
+        const elementTextLength = content.createFragmentFromString(elementContent).textContent?.length || 0
+
+        const mergedContent = direction === 'before'
+          ? targetContent + elementContent
+          : elementContent + targetContent
+
+        merged.innerHTML = mergedContent
+        removed.remove()
+        if (mergedList) list.removeEmptyLists(mergedList)
+
+        // Position cursor at the merge boundary
+        const cursorOffset = direction === 'before'
+          ? targetTextLength
+          : elementTextLength
+
+        editable.createCursorAtCharacterOffset({element: merged, offset: cursorOffset})
+      })
     },
 
     empty (element: HTMLElement): void {
@@ -154,45 +191,145 @@ export default function createDefaultBehavior (editable: Editable) {
     },
 
     move (element: HTMLElement, selection: Selection, direction: string): void {
-      log('Default move behavior')
+      const rootList = list.isListItem(element) ? list.getRootList(element) : undefined
+      const sibling = rootList
+        ? list.getSiblingItem(element, direction as 'before' | 'after')
+        : (direction === 'before' ? element.previousElementSibling : element.nextElementSibling) as HTMLElement | null
+      // Blocks only swap places with editable blocks
+      if (!sibling || !sibling.matches(editable.editableSelector)) return
+
+      const {start, end} = toCharacterRange(selection.range, element)
+      editable.history.transact(rootList ? [rootList] : [element, sibling], () => {
+        if (rootList) {
+          list.moveItem(element, direction as 'before' | 'after')
+        } else if (direction === 'before') {
+          sibling.before(element)
+        } else {
+          sibling.after(element)
+        }
+
+        // Moving the block collapses the range, so it is restored by offset
+        if (element.textContent && start === end) {
+          editable.createCursorAtCharacterOffset({element, offset: start})
+        } else if (element.textContent) {
+          new Cursor(element, createRangeFromCharacterRange(element, start, end)).setVisibleSelection()
+        } else {
+          editable.createCursorAtBeginning(element)?.setVisibleSelection()
+        }
+      })
+
+      editable.dispatcher.notify('change', element)
+      editable.dispatcher.notify('change', sibling)
     },
 
-    paste (element: HTMLElement, blocks: string[], cursor: Cursor): void {
-      cursor.insertBefore(blocks[0])
+    paste (element: HTMLElement, blocks: string[], cursor: Cursor, listLevels: Array<number | undefined> = []): void {
+      const rootList = list.isListItem(element) ? list.getRootList(element) : undefined
+      editable.history.transact([rootList || element], () => {
+        cursor.insertBefore(blocks[0])
 
-      if (blocks.length <= 1) {
-        cursor.setVisibleSelection()
-        return
-      }
+        if (blocks.length <= 1) {
+          cursor.setVisibleSelection()
+          return
+        }
 
-      const parent = element.parentNode
-      if (!parent) return
-      let currentElement = element
+        const parent = element.parentNode
+        if (!parent) return
+        let currentElement = element
+        const newElements: HTMLElement[] = []
+
+        blocks.slice(1).forEach((str: string) => {
+          const newElement = element.cloneNode(false) as HTMLElement
+          if (newElement.id) newElement.removeAttribute('id')
+          const fragment = content.createFragmentFromString(str)
+          newElement.appendChild(fragment)
+          parent.insertBefore(newElement, currentElement.nextSibling)
+          currentElement = newElement
+          newElements.push(newElement)
+        })
+
+        if (rootList) nestPastedItems(newElements, listLevels)
+
+        // Focus the last inserted element after distributing all pasted blocks.
+        const lastCursor = editable.createCursorAtEnd(currentElement)
+        if (lastCursor) lastCursor.setVisibleSelection()
+      })
+    },
 
-      blocks.slice(1).forEach((str: string) => {
-        const newElement = element.cloneNode(false) as HTMLElement
-        if (newElement.id) newElement.removeAttribute('id')
-        const fragment = content.createFragmentFromString(str)
-        newElement.appendChild(fragment)
-        parent.insertBefore(newElement, currentElement.nextSibling)
-        currentElement = newElement
+    indent (element: HTMLElement, cursor: Cursor): void {
+      const rootList = list.getRootList(element)
+      if (!rootList) return
+      editable.history.transact([rootList], () => {
+        if (list.indent(element)) cursor.setVisibleSelection()
       })
+    },
+
+    outdent (element: HTMLElement, cursor: Cursor): void {
+      const rootList = list.getRootList(element)
+      if (!rootList) return
+      editable.history.transact([rootList], () => {
+        if (list.outdent(element)) {
+          cursor.setVisibleSelection()
+          return
+        }
 
-      // Focus the last inserted element after distributing all pasted blocks.
-      const lastCursor = editable.createCursorAtEnd(currentElement)
-      if (lastCursor) lastCursor.setVisibleSelection()
+        // Items of the outermost list become a paragraph
+        const newBlock = list.exitList(element)
+        editable.add(newBlock, {plainText: block.isPlainTextBlock(element)})
+        if (list.isEmptyItem(newBlock)) {
+          editable.createCursorAtBeginning(newBlock)?.setVisibleSelection()
+        } else {
+          new Cursor(newBlock, cursor.range).setVisibleSelection()
+        }
+      })
     },
 
-    clipboard (element: HTMLElement, action: string, cursor: Cursor): void {
+    clipboard (element: HTMLElement, action: string, selection: Selection | MultiBlockSelection): void {
       log('Default clipboard behavior')
     },
 
-    toggleBold (selection: Selection): void {
-      selection.toggleBold()
+    toggleBold (selection: Selection | MultiBlockSelection): void {
+      editable.history.transact(getHosts(selection), () => selection.toggleBold())
+    },
+
+    toggleEmphasis (selection: Selection | MultiBlockSelection): void {
+      editable.history.transact(getHosts(selection), () => selection.toggleEmphasis())
     },
 
-    toggleEmphasis (selection: Selection): void {
-      selection.toggleEmphasis()
+    toggleUnderline (selection: Selection | MultiBlockSelection): void {
+      editable.history.transact(getHosts(selection), () => selection.toggleUnderline())
+    },
+
+    undo (element: HTMLElement): void {
+      editable.history.undo()
+    },
+
+    redo (element: HTMLElement): void {
+      editable.history.redo()
     }
   }
 }
+
+// Nest pasted list items like in the pasted content. The levels are
+// relative to the least nested pasted item, which stays on the level of
+// the item the content was pasted into. Pasted into other blocks, the
+// items become blocks of that type and the levels are ignored.
+//
+// @param {Array of HTMLElement} The items inserted after the item the
+//   content was pasted into.
+// @param {Array of Number} The levels of all pasted blocks.
+function nestPastedItems (items: HTMLElement[], listLevels: Array<number | undefined>): void {
+  const levels = listLevels.filter((level): level is number => level !== undefined)
+  if (!levels.length) return
+
+  const baseLevel = Math.min(...levels)
+  items.forEach((item, index) => {
+    const level = listLevels[index + 1] ?? baseLevel
+    for (let depth = level - baseLevel; depth > 0; depth--) {
+      if (!list.indent(item)) break
+    }
+  })
+}
+
+function getHosts (selection: Selection | MultiBlockSelection): HTMLElement[] {
+  return 'hosts' in selection ? selection.hosts : [selection.host]
+}
@@ -2,6 +2,7 @@ import createDefaultBehavior from './create-default-behavior.js'
 import type {Editable} from './core.js'
 import type Cursor from './cursor.js'
 import type Selection from './selection.js'
+import type MultiBlockSelection from './multi-block-selection.js'
 import type {EventHandlerMap, DispatcherEventMap} from './event-types.js'
 
 export default function createDefaultEvents (editable: Editable) {
@@ -39,9 +40,10 @@ export default function createDefaultEvents (editable: Editable) {
      *
      * @event selection
      * @param {HTMLElement} element The element triggering the event.
-     * @param {Selection} selection The actual Selection object.
+     * @param {Selection|MultiBlockSelection} selection The actual Selection
+     *   object. A MultiBlockSelection if the selection spans several blocks.
      */
-    selection (element: HTMLElement, selection: Selection): void {
+    selection (element: HTMLElement, selection: Selection | MultiBlockSelection): void {
       behavior.selection(element, selection)
     },
 
@@ -149,10 +151,11 @@ export default function createDefaultEvents (editable: Editable) {
     },
 
     /**
-     * The move event is triggered when the user moves a selection in a block.
-     * This happens when the user selects some (or all) content in a block and
-     * an ARROW key is pressed (up: drag before, down: drag after).
-     * The default behavior is to leave the DOM unchanged.
+     * The move event is triggered when the user moves a block.
+     * This happens when ALT+SHIFT+ARROW is pressed (up: move before,
+     * down: move after).
+     * The default behavior is to swap the block with its sibling, keep the
+     * caret at the same character offset and fire change on both blocks.
      *
      * @event move
      * @param {HTMLElement} element The element triggering the event.
@@ -165,14 +168,15 @@ export default function createDefaultEvents (editable: Editable) {
 
     /**
      * The clipboard event is triggered when the user copies or cuts
-     * a selection within a block.
+     * a selection within a block or across several blocks.
      *
      * @event clipboard
      * @param {HTMLElement} element The element triggering the event.
      * @param {String} action The clipboard action: "copy" or "cut".
-     * @param {Selection} selection A selection object around the copied content.
+     * @param {Selection|MultiBlockSelection} selection A selection object
+     *   around the copied content.
      */
-    clipboard (element: HTMLElement, action: string, selection: Selection): void {
+    clipboard (element: HTMLElement, action: string, selection: Selection | MultiBlockSelection): void {
       behavior.clipboard(element, action, selection)
     },
 
@@ -183,18 +187,47 @@ export default function createDefaultEvents (editable: Editable) {
      * @param {HTMLElement} The element triggering the event.
      * @param {Array of String} The pasted blocks
      * @param {Cursor} The cursor object.
+     * @param {Array of Number} The nesting level of pasted list items
+     *   (undefined for blocks that were not list items).
+     */
+    paste (element: HTMLElement, blocks: string[], cursor: Cursor, listLevels?: Array<number | undefined>): void {
+      behavior.paste(element, blocks, cursor, listLevels)
+    },
+
+    /**
+     * The indent event is triggered when TAB is pressed in a list item.
+     * The default behavior is to nest the item into the list of the
+     * previous item.
+     *
+     * @event indent
+     * @param {HTMLElement} element The list item triggering the event.
+     * @param {Cursor} cursor The actual cursor object.
      */
-    paste (element: HTMLElement, blocks: string[], cursor: Cursor): void {
-      behavior.paste(element, blocks, cursor)
+    indent (element: HTMLElement, cursor: Cursor): void {
+      behavior.indent(element, cursor)
+    },
+
+    /**
+     * The outdent event is triggered when SHIFT+TAB is pressed in a list
+     * item or ENTER is pressed in an empty list item.
+     * The default behavior is to move a nested item one level up. An item
+     * of the outermost list is turned into a paragraph after the list.
+     *
+     * @event outdent
+     * @param {HTMLElement} element The list item triggering the event.
+     * @param {Cursor} cursor The actual cursor object.
+     */
+    outdent (element: HTMLElement, cursor: Cursor): void {
+      behavior.outdent(element, cursor)
     },
 
     /**
      * The toggleBold event is triggered when the bold keyboard shortcut is used
      *
      * @event toggleBold
-     * @param {Selection} The selection object.
+     * @param {Selection|MultiBlockSelection} The selection object.
      */
-    toggleBold (selection: Selection): void {
+    toggleBold (selection: Selection | MultiBlockSelection): void {
       behavior.toggleBold(selection)
     },
 
@@ -202,10 +235,46 @@ export default function createDefaultEvents (editable: Editable) {
      * The toggleEmphasis event is triggered when the italic keyboard shortcut is used
      *
      * @event toggleEmphasis
-     * @param {Selection} The selection object.
+     * @param {Selection|MultiBlockSelection} The selection object.
      */
-    toggleEmphasis (selection: Selection): void {
+    toggleEmphasis (selection: Selection | MultiBlockSelection): void {
       behavior.toggleEmphasis(selection)
+    },
+
+    /**
+     * The toggleUnderline event is triggered by the `toggleUnderline`
+     * keymap command, e.g. `editable.keymap({'Mod-u': 'toggleUnderline'})`.
+     *
+     * @event toggleUnderline
+     * @param {Selection|MultiBlockSelection} The selection object.
+     */
+    toggleUnderline (selection: Selection | MultiBlockSelection): void {
+      behavior.toggleUnderline(selection)
+    },
+
+    /**
+     * The undo event is triggered when the undo keyboard shortcut is used
+     * (CTRL+Z or CMD+Z).
+     * The default behavior is to revert the last transaction recorded in
+     * `editable.history` and restore the caret of that moment.
+     *
+     * @event undo
+     * @param {HTMLElement} element The element triggering the event.
+     */
+    undo (element: HTMLElement): void {
+      behavior.undo(element)
+    },
+
+    /**
+     * The redo event is triggered when the redo keyboard shortcut is used
+     * (CTRL+SHIFT+Z, CMD+SHIFT+Z or CTRL+Y).
+     * The default behavior is to reapply the last undone transaction.
+     *
+     * @event redo
+     * @param {HTMLElement} element The element triggering the event.
+     */
+    redo (element: HTMLElement): void {
+      behavior.redo(element)
     }
   } as EventHandlerMap<DispatcherEventMap, Editable>
 }
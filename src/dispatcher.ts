@@ -5,19 +5,26 @@ import eventable from './eventable.js'
 import SelectionWatcher from './selection-watcher.js'
 import config from './config.js'
 import Keyboard from './keyboard.js'
-import {closest} from './util/dom.js'
+import Keymap, {defaultBindings} from './keymap.js'
+import {closest, createRange, createRangeFromPoint} from './util/dom.js'
+import error from './util/error.js'
 import {replaceLast, endsWithSingleSpace} from './util/string.js'
-import {applySmartQuotes, shouldApplySmartQuotes} from './smartQuotes.js'
+import {applyInputRules, matchInputRule, smartQuotesRule} from './input-rules.js'
+import type {InputRule} from './input-rules.js'
+import {isEmptyItem, isListItem} from './list.js'
+import MultiBlockSelection from './multi-block-selection.js'
 import type {Editable} from './core.js'
-import type {QuotePair} from './smartQuotes.js'
 import type {
   DispatcherEventMap,
   EventNotify,
   EventOff,
   EventOn
 } from './event-types.js'
+import Cursor from './cursor.js'
 import type Selection from './selection.js'
 
+let pasteFilesMarkerId = 0
+
 /**
  * Coordinates DOM events, keyboard shortcuts and selection updates for an
  * `Editable` instance.
@@ -29,8 +36,16 @@ export default class Dispatcher {
   public editableSelector: string
   public selectionWatcher: SelectionWatcher
   public keyboard: Keyboard
+  public keymap: Keymap
   public activeListeners: Array<{event: string, listener: EventListener, capture: boolean}>
   public suspended?: boolean
+  // Blocks with an active IME composition
+  public composingBlocks: Set<HTMLElement>
+  public inputRuleSets: InputRule[][]
+  // Applied with the `smartQuotes` config
+  public smartQuotesRule: InputRule
+  // The selection dragged from an editable block.
+  public dragSelection?: Selection | MultiBlockSelection
   public switchContext?: {
     events: string[]
     positionX?: number
@@ -49,7 +64,11 @@ export default class Dispatcher {
     this.editableSelector = editable.editableSelector
     this.selectionWatcher = new SelectionWatcher(this, win)
     this.keyboard = new Keyboard(this.selectionWatcher)
+    this.keymap = new Keymap()
     this.activeListeners = []
+    this.composingBlocks = new Set()
+    this.inputRuleSets = []
+    this.smartQuotesRule = smartQuotesRule(this.config)
     this.setup()
     this.getEditableBlockByEvent = (evt: Event) => {
       const target = evt.target as Node
@@ -73,6 +92,7 @@ export default class Dispatcher {
   setup () {
     // setup all events listeners and keyboard handlers
     this.setupKeyboardEvents()
+    this.setupKeymapCommands()
     this.setupEventListeners()
   }
 
@@ -87,6 +107,8 @@ export default class Dispatcher {
   suspend () {
     if (this.suspended) return
     this.suspended = true
+    this.composingBlocks.clear()
+    this.dragSelection = undefined
     for (const l of this.activeListeners) {
       this.document.removeEventListener(l.event, l.listener, l.capture)
     }
@@ -102,6 +124,8 @@ export default class Dispatcher {
   setupEventListeners () {
     this.setupElementListeners()
     this.setupKeydownListener()
+    this.setupBeforeInputListener()
+    this.setupCompositionListeners()
 
     if (selectionchange) {
       this.setupSelectionChangeListeners()
@@ -116,7 +140,6 @@ export default class Dispatcher {
   * @method setupElementListeners
   */
   setupElementListeners () {
-    const currentInput: {offset?: number} = {offset: undefined}
     this
       .setupDocumentListener('focus', function focusListener (this: Dispatcher, evt: Event) {
         const block = this.getEditableBlockByEvent(evt)
@@ -124,29 +147,40 @@ export default class Dispatcher {
         const target = evt.target as HTMLElement
         if (target && target.getAttribute(config.pastingAttribute)) return
         this.selectionWatcher.syncSelection()
+        this.endComposition(block)
         this.notify('focus', block)
       }, true)
       .setupDocumentListener('blur', function blurListener (this: Dispatcher, evt: Event) {
         const block = this.getEditableBlockByEvent(evt)
         if (!block) return
         if (block.getAttribute(config.pastingAttribute)) return
+        this.endComposition(block)
         this.notify('blur', block)
       }, true)
       .setupDocumentListener('copy', function copyListener (this: Dispatcher, evt: Event) {
         const block = this.getEditableBlockByEvent(evt)
         if (!block) return
-        const selection = this.selectionWatcher.getFreshSelection()
-        if (selection && selection.isSelection) {
-          this.notify('clipboard', block, 'copy', selection as Selection)
-        }
+        const selection = this.selectionWatcher.getFreshTextSelection()
+        if (!selection) return
+        this.notify('clipboard', block, 'copy', selection)
+
+        const clipboardData = (evt as ClipboardEvent).clipboardData
+        if (!clipboardData) return
+        evt.preventDefault()
+        clipboard.copy(selection, clipboardData, {blocks: this.config.copyBlocks})
       })
       .setupDocumentListener('cut', function cutListener (this: Dispatcher, evt: Event) {
         const block = this.getEditableBlockByEvent(evt)
         if (!block) return
-        const selection = this.selectionWatcher.getFreshSelection()
-        if (selection && selection.isSelection) {
-          this.notify('clipboard', block, 'cut', selection as Selection)
-        }
+        const selection = this.selectionWatcher.getFreshTextSelection()
+        if (!selection) return
+        this.notify('clipboard', block, 'cut', selection)
+
+        const clipboardData = (evt as ClipboardEvent).clipboardData
+        if (!clipboardData) return
+        evt.preventDefault()
+        clipboard.copy(selection, clipboardData, {blocks: this.config.copyBlocks})
+        this.deleteSelection(selection)
       })
       .setupDocumentListener('paste', function pasteListener (this: Dispatcher, evt: Event) {
         const block = this.getEditableBlockByEvent(evt)
@@ -154,47 +188,58 @@ export default class Dispatcher {
 
         const clipEvent = evt as ClipboardEvent
         clipEvent.preventDefault()
-        const selection = this.selectionWatcher.getFreshSelection()
-        if (!selection || !clipEvent.clipboardData) return
-        const clipboardContent = clipEvent.clipboardData.getData('text/html') || clipEvent.clipboardData.getData('text/plain')
-
-        const {blocks, cursor} = clipboard.paste(block, selection, clipboardContent)
-        if (blocks.length) {
-          const target = clipEvent.target as HTMLElement
-          if (target && endsWithSingleSpace(target.innerText)) {
-            cursor.retainVisibleSelection(() => {
-              block.innerHTML = replaceLast(block.innerHTML, '&nbsp;', ' ')
-            })
-          }
-          this.notify('paste', block, blocks, cursor)
-          // The input event does not fire when we process the content manually
-          // and insert it via script
-          this.notify('change', block)
-        } else {
-          cursor.setVisibleSelection()
+        const clipboardData = clipEvent.clipboardData
+        if (!clipboardData) return
+
+        this.dispatchPasteEvent(block, clipboardData, clipEvent.target as HTMLElement)
+      })
+      .setupDocumentListener('dragstart', function dragstartListener (this: Dispatcher, evt: Event) {
+        const dataTransfer = (evt as DragEvent).dataTransfer
+        if (!dataTransfer || !this.getEditableBlockByEvent(evt)) return
+        const selection = this.selectionWatcher.getFreshTextSelection()
+        if (!selection) return
+
+        // The range of the window selection changes while dragging
+        selection.range = selection.range.cloneRange()
+        this.dragSelection = selection
+        clipboard.copy(selection, dataTransfer, {blocks: this.config.copyBlocks})
+      })
+      .setupDocumentListener('dragend', function dragendListener (this: Dispatcher) {
+        this.dragSelection = undefined
+      })
+      .setupDocumentListener('drop', function dropListener (this: Dispatcher, evt: Event) {
+        const block = this.getEditableBlockByEvent(evt)
+        const dragEvent = evt as DragEvent
+        const dataTransfer = dragEvent.dataTransfer
+        if (!block || !dataTransfer) return
+
+        // Without a drop position the content is inserted at the end of the
+        // block, a selection is left as it is.
+        const range = createRangeFromPoint(this.document, dragEvent.clientX, dragEvent.clientY)
+        const cursor = range && block.contains(range.startContainer)
+          ? new Cursor(block, range)
+          : this.editable.createCursorAtEnd(block)
+        dragEvent.preventDefault()
+        if (!cursor) return
+
+        const files = Array.from(dataTransfer.files || [])
+        if (files.length) {
+          this.dispatchPasteFilesEvent(block, files, cursor)
+          return
         }
+
+        // Dropped content passes through the paste pipeline instead of
+        // being inserted unfiltered by the browser.
+        this.dispatchDropEvent(block, dataTransfer, cursor)
       })
       .setupDocumentListener('input', function inputListener (this: Dispatcher, evt: Event) {
         const block = this.getEditableBlockByEvent(evt)
         if (!block) return
+        // The change is notified once the composition ends
+        if (this.isComposing(block) || (evt as InputEvent).isComposing) return
 
-        const target = evt.target as HTMLElement
-        if (target && shouldApplySmartQuotes(this.config, target)) {
-          const selection = this.selectionWatcher.getFreshSelection()
-          if (!selection || !selection.range) return
-          // Save offset of new input, to reset cursor correctly after timeout delay
-          currentInput.offset = selection.range.startOffset
-          const inputEvent = evt as InputEvent
-          const quotesConfig = {
-            quotes: this.config.quotes as QuotePair | string[],
-            singleQuotes: this.config.singleQuotes as QuotePair | string[]
-          }
-          setTimeout(() => {
-            if (inputEvent.data) {
-              applySmartQuotes(selection.range!, quotesConfig, inputEvent.data, target, currentInput.offset)
-            }
-          }, 300
-          )
+        if ((evt as InputEvent).data && this.getInputRules().length) {
+          this.applyInputRules(block)
         }
 
         this.notify('change', block)
@@ -207,6 +252,256 @@ export default class Dispatcher {
       })
   }
 
+  // Add input rules next to the ones of the config. Plugins use this
+  // to keep their rules out of the shared config.
+  //
+  // @returns {Function} Removes the rules again.
+  useInputRules (rules: InputRule[]): () => void {
+    this.inputRuleSets.push(rules)
+    return () => {
+      this.inputRuleSets = this.inputRuleSets.filter((entry) => entry !== rules)
+    }
+  }
+
+  getInputRules (): InputRule[] {
+    const rules = [...this.config.inputRules, ...this.inputRuleSets.flat()]
+    return this.config.smartQuotes ? [...rules, this.smartQuotesRule] : rules
+  }
+
+  applyInputRules (block: HTMLElement): void {
+    const rules = this.getInputRules()
+    const cursor = this.selectionWatcher.getFreshSelection()
+    if (!cursor || !cursor.isCursor) return
+    const text = cursor.textBefore()
+    if (!rules.some((rule) => matchInputRule(rule, text))) return
+
+    // Record the typed text first, so a single undo reverts the rule
+    // and restores the text as it was typed. The input listener notifies
+    // the change once the rule is applied.
+    this.editable.history.onChange(block)
+    this.editable.history.transact([block], () => {
+      const freshCursor = this.selectionWatcher.getFreshSelection()
+      if (freshCursor) applyInputRules(block, rules, freshCursor)
+    })
+  }
+
+  // Insert the content of a clipboard or the dataTransfer of a beforeinput event.
+  dispatchPasteEvent (block: HTMLElement, clipboardData: DataTransfer, target?: HTMLElement): void {
+    // Files are only pasted without text content. Office applications
+    // add an image of the copied text.
+    const files = Array.from(clipboardData.files || [])
+    if (files.length && !clipboardData.getData('text/html') && !clipboardData.getData('text/plain')) {
+      const selection = this.selectionWatcher.getFreshSelection()
+      if (!selection) return
+      const cursor = selection.isSelection ? this.deleteSelection(selection as Selection) : selection
+      this.dispatchPasteFilesEvent(block, files, cursor)
+      return
+    }
+
+    // Record the removal of the selected content and the insertion
+    // of the pasted blocks as a single step.
+    this.editable.history.transact([block], () => {
+      const selection = this.selectionWatcher.getFreshSelection()
+      if (selection) this.pasteClipboardData(block, selection, clipboardData, target)
+    })
+  }
+
+  // Insert the content of a DataTransfer through the paste pipeline
+  // and notify paste for the parsed blocks.
+  //
+  // @param {HTMLElement} The block to paste into.
+  // @param {Cursor|Selection} Where to paste. A selection is replaced.
+  pasteClipboardData (block: HTMLElement, selection: Cursor | Selection, clipboardData: DataTransfer, target?: HTMLElement): void {
+    const html = clipboardData.getData('text/html')
+    const clipboardContent = html || clipboardData.getData('text/plain')
+
+    const {blocks, listLevels, cursor} = clipboard.paste(block, selection, clipboardContent, {
+      markdown: !html && this.config.pasteMarkdown,
+      copiedBlocks: clipboardData.getData(clipboard.blocksMimeType),
+      transforms: this.editable.pasteTransforms,
+      smartQuotes: this.config.smartQuotes
+    })
+    if (blocks.length) {
+      if (target && endsWithSingleSpace(target.innerText)) {
+        cursor.retainVisibleSelection(() => {
+          block.innerHTML = replaceLast(block.innerHTML, '&nbsp;', ' ')
+        })
+      }
+      this.notify('paste', block, blocks, cursor, listLevels)
+      // The input event does not fire when we process the content manually
+      // and insert it via script
+      this.notify('change', block)
+    } else {
+      cursor.setVisibleSelection()
+    }
+  }
+
+  // Insert dropped content at the drop position. Content dragged from
+  // an editable is moved: the dragged selection is deleted and inserted
+  // at the drop position as one undoable step.
+  //
+  // @param {HTMLElement} The block the content was dropped into.
+  // @param {DataTransfer}
+  // @param {Cursor} The drop position.
+  dispatchDropEvent (block: HTMLElement, dataTransfer: DataTransfer, cursor: Cursor): void {
+    const dragged = this.dragSelection
+    this.dragSelection = undefined
+    if (!dragged) {
+      this.editable.history.transact([block], () => this.pasteClipboardData(block, cursor, dataTransfer))
+      return
+    }
+
+    // Dropping a selection onto itself leaves the content unchanged
+    const {startContainer, startOffset} = cursor.range
+    if (dragged.range.isPointInRange(startContainer, startOffset)) return
+
+    // The marker keeps the drop position while the dragged content is deleted
+    const marker = this.document.createElement('span')
+    marker.setAttribute('data-editable', 'remove')
+    cursor.insertBefore(marker)
+
+    const sources = dragged instanceof MultiBlockSelection ? dragged.hosts : [dragged.host]
+    const hosts = sources.includes(block) ? sources : [...sources, block]
+    this.editable.history.transact(hosts, () => {
+      this.deleteSelection(dragged)
+      const host = closest(marker, this.editableSelector)
+      if (!host) return
+      const range = createRange(this.editable.win)
+      range.setStartBefore(marker)
+      range.collapse(true)
+      marker.remove()
+      this.pasteClipboardData(host, new Cursor(host, range), dataTransfer)
+    })
+    marker.remove()
+  }
+
+  // Notify pasteFiles for files pasted or dropped into a block.
+  // Listeners can return a promise resolving to a node (e.g. an uploaded
+  // image). The nodes are inserted where the files were pasted, once all
+  // promises are settled. A marker keeps this position in the meantime.
+  // It is recorded in the undo history, so undoing other changes during
+  // an upload restores it.
+  dispatchPasteFilesEvent (block: HTMLElement, files: File[], cursor: Cursor): void {
+    const markerId = `${++pasteFilesMarkerId}`
+    let marker = this.document.createElement('span')
+    marker.setAttribute('data-editable', 'remove')
+    marker.setAttribute('data-history', 'keep')
+    marker.setAttribute('data-paste-files', markerId)
+    cursor.insertBefore(marker)
+    cursor.setVisibleSelection()
+    this.editable.history.snapshot(block)
+
+    const pending = this.notify('pasteFiles', block, files, cursor)
+      .filter((result): result is Promise<Node | undefined> => typeof (result as Promise<Node>)?.then === 'function')
+    if (!pending.length) {
+      marker.remove()
+      return
+    }
+
+    Promise.allSettled(pending).then((results) => {
+      const nodes: Node[] = []
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          error('Error in pasteFiles: a listener rejected', result.reason)
+        } else if (result.value) {
+          nodes.push(result.value)
+        }
+      }
+
+      // An undo or redo replaces the marker with a copy. It is gone if the
+      // block was removed, reset or the paste was undone in the meantime
+      if (!marker.isConnected) {
+        marker = this.document.querySelector(`[data-paste-files="${markerId}"]`) || marker
+      }
+      const host = marker.isConnected ? closest(marker, this.editableSelector) : undefined
+      if (!nodes.length || !host) {
+        marker.remove()
+        if (nodes.length) error('Error in pasteFiles: the pasted position was removed, the resolved nodes are not inserted')
+        return
+      }
+
+      this.editable.history.transact([host], () => {
+        for (const node of nodes) marker.before(node)
+        marker.remove()
+      })
+      this.notify('change', host)
+    })
+  }
+
+  // Delete the content of a selection as one undoable step. For a selection
+  // across several blocks the remaining content is merged into the first block.
+  deleteSelection (selection: Selection | MultiBlockSelection): Cursor {
+    const isMultiBlock = selection instanceof MultiBlockSelection
+    let cursor!: Cursor
+    this.editable.history.transact(isMultiBlock ? selection.hosts : [selection.host], () => {
+      cursor = isMultiBlock
+        ? selection.deleteContent()
+        : selection.deleteExactSurroundingTags().deleteContainedTags().deleteContent()
+      cursor.setVisibleSelection()
+    })
+    this.notify('change', cursor.host)
+    return cursor
+  }
+
+  // Merge a block with its neighbor if the cursor is at its beginning
+  // (direction 'before') or at its end (direction 'after').
+  // A selection across several blocks is deleted.
+  //
+  // @returns {Boolean} True if the input was handled.
+  dispatchMergeEvent (element: HTMLElement, direction: 'before' | 'after'): boolean {
+    const rangeContainer = this.selectionWatcher.getFreshRange()
+    if (rangeContainer.isMultiBlockSelection) {
+      this.deleteSelection(rangeContainer.getMultiBlockSelection()!)
+      return true
+    }
+    if (!rangeContainer.isCursor) return false
+
+    const cursor = rangeContainer.getCursor()
+    if (!cursor) return false
+    if (direction === 'before' ? !cursor.isAtBeginning() : !cursor.isAtTextEnd()) return false
+
+    this.notify('merge', element, direction, cursor)
+    return true
+  }
+
+  dispatchEnterEvent (element: HTMLElement): void {
+    const rangeContainer = this.selectionWatcher.getFreshRange()
+    const cursor = rangeContainer.isMultiBlockSelection
+      ? this.deleteSelection(rangeContainer.getMultiBlockSelection()!)
+      : rangeContainer.forceCursor()
+
+    if (!cursor) return
+    const editableBlock = cursor.host || element
+
+    // Enter in an empty list item leaves the (nested) list
+    if (isListItem(editableBlock) && isEmptyItem(editableBlock)) {
+      this.notify('outdent', editableBlock, cursor)
+    } else if (cursor.isAtTextEnd()) {
+      this.notify('insert', editableBlock, 'after', cursor)
+    } else if (cursor.isAtBeginning()) {
+      this.notify('insert', editableBlock, 'before', cursor)
+    } else {
+      const beforeFragment = cursor.before()
+      const afterFragment = cursor.after()
+      this.notify('split', editableBlock, content.getInnerHtmlOfFragment(beforeFragment), content.getInnerHtmlOfFragment(afterFragment), cursor)
+    }
+  }
+
+  dispatchNewlineEvent (element: HTMLElement): void {
+    const cursor = this.selectionWatcher.forceCursor()
+    if (cursor) this.notify('newline', element, cursor)
+  }
+
+  dispatchFormatEvent (eventName: 'toggleBold' | 'toggleEmphasis' | 'toggleUnderline'): void {
+    const selection = this.selectionWatcher.getFreshTextSelection()
+    if (selection) this.notify(eventName, selection)
+  }
+
+  dispatchMoveEvent (element: HTMLElement, direction: 'before' | 'after'): void {
+    const selection = this.selectionWatcher.getFreshSelection()
+    if (selection) this.notify('move', element, selection as Selection, direction)
+  }
+
   dispatchSwitchEvent (event: KeyboardEvent, element: HTMLElement, direction: 'up' | 'down'): void {
     if (event.altKey || event.ctrlKey || event.metaKey || event.shiftKey) return
     const cursor = this.selectionWatcher.getFreshSelection()
@@ -248,10 +543,109 @@ export default class Dispatcher {
       const block = this.getEditableBlockByEvent(evt)
       if (!block) return
       const keyEvent = evt as KeyboardEvent
+      // Keys like enter confirm a candidate of the IME. Safari sends
+      // these with the keyCode 229 after the compositionend event.
+      if (this.isComposing(block) || keyEvent.isComposing || keyEvent.keyCode === 229) return
+      if (this.keymap.handleKeydown(keyEvent, block)) return
       this.keyboard.dispatchKeyEvent(keyEvent, block, false)
     }, true)
   }
 
+  /**
+  * Maps `beforeinput` events to the same semantic events as the keyboard
+  * handlers. Virtual keyboards on Android and iOS often send no usable
+  * keydown events, but they do send beforeinput with an inputType.
+  * Keys handled on keydown prevent the default action there, so the
+  * browser fires no beforeinput for them.
+  *
+  * @method setupBeforeInputListener
+  */
+  setupBeforeInputListener () {
+    this.setupDocumentListener('beforeinput', function (this: Dispatcher, evt: Event) {
+      const block = this.getEditableBlockByEvent(evt)
+      if (!block) return
+      const inputEvent = evt as InputEvent
+      // Input that cannot be prevented (e.g. during an IME composition)
+      // is left to the browser.
+      if (!inputEvent.cancelable || inputEvent.isComposing || this.isComposing(block)) return
+      if (this.dispatchInputEvent(inputEvent, block)) inputEvent.preventDefault()
+    })
+  }
+
+  /**
+  * Tracks IME compositions (e.g. Japanese or Chinese input). Changing the
+  * DOM by script breaks an active composition, so the input handling and
+  * the change events are held back until the composition ends.
+  *
+  * @method setupCompositionListeners
+  */
+  setupCompositionListeners () {
+    this
+      .setupDocumentListener('compositionstart', function compositionStartListener (this: Dispatcher, evt: Event) {
+        const block = this.getEditableBlockByEvent(evt)
+        if (!block) return
+        this.composingBlocks.add(block)
+      })
+      .setupDocumentListener('compositionend', function compositionEndListener (this: Dispatcher, evt: Event) {
+        const block = this.getEditableBlockByEvent(evt)
+        if (!block) return
+        this.endComposition(block)
+      })
+  }
+
+  // @param {HTMLElement} Only check this block (optional).
+  isComposing (block?: HTMLElement): boolean {
+    return block ? this.composingBlocks.has(block) : this.composingBlocks.size > 0
+  }
+
+  // Browsers do not fire compositionend in every case (e.g. when the block
+  // loses the focus), so a composition also ends on blur and focus.
+  endComposition (block: HTMLElement): void {
+    if (!this.composingBlocks.delete(block)) return
+    this.notify('compositionEnd', block)
+    this.notify('change', block)
+  }
+
+  // Notify the semantic event for the inputType of a beforeinput event.
+  //
+  // @returns {Boolean} True if the input was handled and the default
+  //   action of the browser has to be prevented.
+  dispatchInputEvent (inputEvent: InputEvent, block: HTMLElement): boolean {
+    switch (inputEvent.inputType) {
+      case 'insertParagraph':
+        this.dispatchEnterEvent(block)
+        return true
+      case 'insertLineBreak':
+        this.dispatchNewlineEvent(block)
+        return true
+      case 'deleteContentBackward':
+        return this.dispatchMergeEvent(block, 'before')
+      case 'deleteContentForward':
+        return this.dispatchMergeEvent(block, 'after')
+      case 'formatBold':
+        this.dispatchFormatEvent('toggleBold')
+        return true
+      case 'formatItalic':
+        this.dispatchFormatEvent('toggleEmphasis')
+        return true
+      case 'formatUnderline':
+        this.dispatchFormatEvent('toggleUnderline')
+        return true
+      case 'insertFromPaste':
+        if (!inputEvent.dataTransfer) return false
+        this.dispatchPasteEvent(block, inputEvent.dataTransfer, block)
+        return true
+      case 'historyUndo':
+        this.notify('undo', block)
+        return true
+      case 'historyRedo':
+        this.notify('redo', block)
+        return true
+      default:
+        return false
+    }
+  }
+
   /**
   * Registers keyboard handlers that translate low-level key presses into
   * semantic editor events.
@@ -271,77 +665,45 @@ export default class Dispatcher {
       })
 
       .on('backspace', function (this: HTMLElement, event: KeyboardEvent) {
-        const editableBlock = this as HTMLElement
-        const rangeContainer = self.selectionWatcher.getFreshRange()
-        if (!rangeContainer.isCursor) return
-
-        const cursor = rangeContainer.getCursor()
-        if (!cursor || !cursor.isAtBeginning()) return
-
+        if (!self.dispatchMergeEvent(this, 'before')) return
         event.preventDefault()
         event.stopPropagation()
-        self.notify('merge', editableBlock, 'before', cursor)
       })
 
       .on('delete', function (this: HTMLElement, event: KeyboardEvent) {
-        const editableBlock = this as HTMLElement
-        const rangeContainer = self.selectionWatcher.getFreshRange()
-        if (!rangeContainer.isCursor) return
-
-        const cursor = rangeContainer.getCursor()
-        if (!cursor || !cursor.isAtTextEnd()) return
-
+        if (!self.dispatchMergeEvent(this, 'after')) return
         event.preventDefault()
         event.stopPropagation()
-        self.notify('merge', editableBlock, 'after', cursor)
       })
 
       .on('enter', function (this: HTMLElement, event: KeyboardEvent) {
-        const editableBlock = this as HTMLElement
         event.preventDefault()
         event.stopPropagation()
-        const rangeContainer = self.selectionWatcher.getFreshRange()
-        const cursor = rangeContainer.forceCursor()
-
-        if (!cursor) return
-
-        if (cursor.isAtTextEnd()) {
-          self.notify('insert', editableBlock, 'after', cursor)
-        } else if (cursor.isAtBeginning()) {
-          self.notify('insert', editableBlock, 'before', cursor)
-        } else {
-          const beforeFragment = cursor.before()
-          const afterFragment = cursor.after()
-          self.notify('split', editableBlock, content.getInnerHtmlOfFragment(beforeFragment), content.getInnerHtmlOfFragment(afterFragment), cursor)
-        }
+        self.dispatchEnterEvent(this)
       })
 
       .on('shiftEnter', function (this: HTMLElement, event: KeyboardEvent) {
-        const editableBlock = this as HTMLElement
         event.preventDefault()
         event.stopPropagation()
-        const cursor = self.selectionWatcher.forceCursor()
-        if (cursor) {
-          self.notify('newline', editableBlock, cursor)
-        }
+        self.dispatchNewlineEvent(this)
       })
 
-      .on('bold', function (this: HTMLElement, event: KeyboardEvent) {
+      .on('tab', function (this: HTMLElement, event: KeyboardEvent) {
+        const editableBlock = this as HTMLElement
+        if (!isListItem(editableBlock)) return
         event.preventDefault()
         event.stopPropagation()
-        const selection = self.selectionWatcher.getFreshSelection()
-        if (selection && selection.isSelection) {
-          self.notify('toggleBold', selection as Selection)
-        }
+        const cursor = self.selectionWatcher.forceCursor()
+        if (cursor) self.notify('indent', editableBlock, cursor)
       })
 
-      .on('italic', function (this: HTMLElement, event: KeyboardEvent) {
+      .on('shiftTab', function (this: HTMLElement, event: KeyboardEvent) {
+        const editableBlock = this as HTMLElement
+        if (!isListItem(editableBlock)) return
         event.preventDefault()
         event.stopPropagation()
-        const selection = self.selectionWatcher.getFreshSelection()
-        if (selection && selection.isSelection) {
-          self.notify('toggleEmphasis', selection as Selection)
-        }
+        const cursor = self.selectionWatcher.forceCursor()
+        if (cursor) self.notify('outdent', editableBlock, cursor)
       })
 
       .on('character', function (this: HTMLElement, event: KeyboardEvent) {
@@ -350,6 +712,32 @@ export default class Dispatcher {
       })
   }
 
+  /**
+  * Registers the named commands that can be bound with `editable.keymap()`
+  * and the default bindings.
+  *
+  * @method setupKeymapCommands
+  */
+  setupKeymapCommands () {
+    const self = this
+    const toggle = (eventName: 'toggleBold' | 'toggleEmphasis' | 'toggleUnderline') => function () {
+      self.dispatchFormatEvent(eventName)
+    }
+    const move = (direction: 'before' | 'after') => function (this: HTMLElement) {
+      self.dispatchMoveEvent(this, direction)
+    }
+
+    this.keymap
+      .addCommand('toggleBold', toggle('toggleBold'))
+      .addCommand('toggleEmphasis', toggle('toggleEmphasis'))
+      .addCommand('toggleUnderline', toggle('toggleUnderline'))
+      .addCommand('undo', function (this: HTMLElement) { self.notify('undo', this) })
+      .addCommand('redo', function (this: HTMLElement) { self.notify('redo', this) })
+      .addCommand('moveBlockUp', move('before'))
+      .addCommand('moveBlockDown', move('after'))
+      .add(defaultBindings)
+  }
+
   /**
   * Sets up events that are triggered on a selection change.
   *
@@ -368,7 +756,8 @@ export default class Dispatcher {
       if (!cursor) {
         selectionWatcher.selectionChanged()
         didSyncSelection = true
-        cursor = this.selectionWatcher.getSelection()
+        const currentSelection = this.selectionWatcher.getSelection()
+        if (!(currentSelection instanceof MultiBlockSelection)) cursor = currentSelection
       }
 
       if (cursor && cursor.isSelection && cursor.isAtBeginning() && cursor.isAtEnd()) {
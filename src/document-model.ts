@@ -0,0 +1,185 @@
+import config from './config.js'
+import * as content from './content.js'
+import error from './util/error.js'
+import {isScriptUrl} from './util/string.js'
+import {createRange, createRangeFromCharacterRange, splitBoundaries, toCharacterRange} from './util/dom.js'
+import type {HtmlAttributes, MarkupConfig} from './config.js'
+
+/**
+ * Structured representation of the content of an editable block.
+ *
+ * The text of a block is stored as a plain string (a `<br>` becomes a
+ * newline) and every inline element as a mark spanning a character range
+ * of that string. Elements configured as `boldMarkup`, `italicMarkup`,
+ * `underlineMarkup` and `linkMarkup` get the types `bold`, `italic`,
+ * `underline` and `link`. Any other element keeps its tag name as type.
+ *
+ * `setDocument()` only creates the configured types and elements allowed
+ * by the `pastedHtmlRules`, with the attributes these rules allow.
+ *
+ * Example:
+ * 'foo <strong>bar</strong>'
+ * -> {text: 'foo bar', marks: [{type: 'bold', start: 4, end: 7}]}
+ */
+
+export type MarkType = 'bold' | 'italic' | 'underline' | 'link' | string
+
+export interface DocumentMark {
+  type: MarkType
+  start: number
+  end: number
+  attrs?: HtmlAttributes
+}
+
+export interface EditableDocument {
+  text: string
+  marks: DocumentMark[]
+}
+
+// Get the document of an editable block.
+//
+// @param {HTMLElement} The editable host.
+// @returns {Object} The document with the `text` and `marks` of the block.
+export function getDocument (host: HTMLElement): EditableDocument {
+  const container = document.createElement('div')
+  container.innerHTML = content.extractContent(host)
+
+  for (const br of Array.from(container.querySelectorAll('br'))) {
+    br.replaceWith(document.createTextNode('\n'))
+  }
+
+  const marks: DocumentMark[] = []
+  for (const elem of Array.from(container.querySelectorAll('*'))) {
+    const range = createRange()
+    range.selectNodeContents(elem)
+    const {start, end} = toCharacterRange(range, container)
+    if (start === end) continue
+
+    const markup = getMarkup(elem.nodeName.toLowerCase())
+    const mark: DocumentMark = {type: markup ? markup.type : elem.nodeName.toLowerCase(), start, end}
+    const attrs = getAttributes(elem, markup ? markup.config.attribs : {})
+    if (attrs) mark.attrs = attrs
+    marks.push(mark)
+  }
+
+  return {text: container.textContent || '', marks}
+}
+
+// Replace the content of an editable block with a document.
+//
+// @param {HTMLElement} The editable host.
+// @param {Object} The document with the `text` and `marks` of the block.
+export function setDocument (host: HTMLElement, doc: EditableDocument): void {
+  const container = document.createElement('div')
+  container.appendChild(document.createTextNode(doc.text))
+
+  // Wrap outer marks first so inner marks end up nested within them.
+  const marks = doc.marks
+    .map((mark, index) => ({mark, index}))
+    .sort((a, b) => a.mark.start - b.mark.start || b.mark.end - a.mark.end || a.index - b.index)
+    .map(({mark}) => mark)
+
+  for (const mark of marks) {
+    if (!(mark.start >= 0 && mark.start < mark.end && mark.end <= doc.text.length)) {
+      error(`setDocument(): invalid range ${mark.start}-${mark.end} for mark "${mark.type}"`)
+      continue
+    }
+    if (!getTagName(mark.type)) {
+      error(`setDocument(): unknown mark type "${mark.type}"`)
+      continue
+    }
+    wrapCharacterRange(container, mark)
+  }
+
+  replaceNewlines(container)
+  content.normalizeTags(container)
+  host.innerHTML = container.innerHTML
+}
+
+// Private Helpers
+// ---------------
+
+const markTypes: Record<string, 'boldMarkup' | 'italicMarkup' | 'underlineMarkup' | 'linkMarkup'> = {
+  bold: 'boldMarkup',
+  italic: 'italicMarkup',
+  underline: 'underlineMarkup',
+  link: 'linkMarkup'
+}
+
+function getMarkup (tagName: string): {type: MarkType, config: MarkupConfig} | undefined {
+  for (const type in markTypes) {
+    const markup = config[markTypes[type]]
+    if (markup.name === tagName) return {type, config: markup}
+  }
+  return undefined
+}
+
+// Get the attributes of an element that are not part of its configured markup.
+function getAttributes (elem: Element, configured: HtmlAttributes): HtmlAttributes | undefined {
+  let attrs: HtmlAttributes | undefined
+  for (const {name, value} of Array.from(elem.attributes)) {
+    if (configured[name] === value) continue
+    attrs = attrs || {}
+    attrs[name] = value
+  }
+  return attrs
+}
+
+// Get the tag name of a configured mark type or an element
+// allowed by the pastedHtmlRules.
+function getTagName (type: MarkType): string | undefined {
+  if (markTypes[type]) return config[markTypes[type]].name
+  return Object.prototype.hasOwnProperty.call(config.pastedHtmlRules.allowedElements, type) ? type : undefined
+}
+
+function createMarkElement (mark: DocumentMark, tagName: string): HTMLElement {
+  const markup = markTypes[mark.type] ? config[markTypes[mark.type]] : undefined
+  const elem = document.createElement(tagName)
+  const allowedAttributes = config.pastedHtmlRules.allowedElements[tagName] || {}
+  for (const name in mark.attrs) {
+    const value = String(mark.attrs[name])
+    if (allowedAttributes[name] && !isScriptUrl(value)) elem.setAttribute(name, value)
+  }
+  const attribs = markup ? markup.attribs : {}
+  for (const name in attribs) elem.setAttribute(name, attribs[name])
+  return elem
+}
+
+// Wrap every text node within the character range of a mark separately.
+// Adjacent wrappers are merged again by content.normalizeTags().
+function wrapCharacterRange (container: HTMLElement, mark: DocumentMark): void {
+  const tagName = getTagName(mark.type)!
+  const range = createRangeFromCharacterRange(container, mark.start, mark.end)
+  splitBoundaries(range)
+
+  // getNodes() would skip the text node of a range that lies within
+  // a single text node, so the text nodes are filtered here.
+  const textNodes = getTextNodes(container)
+  for (const textNode of textNodes) {
+    if (!textNode.nodeValue || !range.intersectsNode(textNode)) continue
+    const elem = createMarkElement(mark, tagName)
+    textNode.parentNode!.insertBefore(elem, textNode)
+    elem.appendChild(textNode)
+  }
+}
+
+function getTextNodes (container: HTMLElement): Text[] {
+  const textNodes: Text[] = []
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT)
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text)
+  return textNodes
+}
+
+function replaceNewlines (container: HTMLElement): void {
+  for (const textNode of getTextNodes(container)) {
+    const lines = (textNode.nodeValue || '').split('\n')
+    if (lines.length === 1) continue
+
+    const fragment = document.createDocumentFragment()
+    lines.forEach((line, index) => {
+      if (index > 0) fragment.appendChild(document.createElement('br'))
+      if (line) fragment.appendChild(document.createTextNode(line))
+    })
+    textNode.parentNode!.replaceChild(fragment, textNode)
+  }
+}
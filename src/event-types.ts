@@ -1,6 +1,8 @@
 import type Cursor from './cursor.js'
 import type Selection from './selection.js'
+import type MultiBlockSelection from './multi-block-selection.js'
 import type {Editable} from './core.js'
+import type {Annotation, SpellcheckUpdate, TextDiffChange} from './plugin-types.js'
 
 export type EventMap = Record<string, unknown[]>
 
@@ -27,11 +29,11 @@ export interface EventNotify<TEventMap extends EventMap, TContext> {
     context: TContext,
     event: TEventName,
     ...args: TEventMap[TEventName]
-  ): void
+  ): unknown[]
   <TEventName extends EventKey<TEventMap>>(
     event: TEventName,
     ...args: TEventMap[TEventName]
-  ): void
+  ): unknown[]
 }
 
 export interface EventOff<TEventMap extends EventMap, TContext> {
@@ -61,7 +63,7 @@ export interface EditableEventMap extends EventMap {
   focus: [HTMLElement]
   blur: [HTMLElement]
   flow: unknown[]
-  selection: [HTMLElement, Selection?]
+  selection: [HTMLElement, (Selection | MultiBlockSelection)?]
   cursor: [HTMLElement, Cursor?]
   newline: [HTMLElement, Cursor]
   insert: [HTMLElement, BlockDirection, Cursor]
@@ -71,16 +73,26 @@ export interface EditableEventMap extends EventMap {
   change: [HTMLElement]
   switch: [HTMLElement, SwitchDirection, Cursor]
   move: [HTMLElement, Selection, BlockDirection]
-  clipboard: [HTMLElement, ClipboardAction, Selection]
-  paste: [HTMLElement, string[], Cursor]
-  spellcheckUpdated: [HTMLElement]
+  clipboard: [HTMLElement, ClipboardAction, Selection | MultiBlockSelection]
+  paste: [HTMLElement, string[], Cursor, Array<number | undefined>?]
+  pasteFiles: [HTMLElement, File[], Cursor]
+  indent: [HTMLElement, Cursor]
+  outdent: [HTMLElement, Cursor]
+  spellcheckUpdated: [HTMLElement, SpellcheckUpdate]
+  textDiffUpdated: [HTMLElement, TextDiffChange[]]
+  annotationMoved: [HTMLElement, Annotation]
+  annotationOrphaned: [HTMLElement, Annotation]
   selectToBoundary: [HTMLElement, Event, SelectionBoundary]
+  compositionEnd: [HTMLElement]
   init: [HTMLElement]
 }
 
 export interface DispatcherEventMap extends EditableEventMap {
-  toggleBold: [Selection]
-  toggleEmphasis: [Selection]
+  toggleBold: [Selection | MultiBlockSelection]
+  toggleEmphasis: [Selection | MultiBlockSelection]
+  toggleUnderline: [Selection | MultiBlockSelection]
+  undo: [HTMLElement]
+  redo: [HTMLElement]
 }
 
 export interface KeyboardEventMap extends EventMap {
@@ -95,8 +107,6 @@ export interface KeyboardEventMap extends EventMap {
   delete: [KeyboardEvent]
   enter: [KeyboardEvent]
   shiftEnter: [KeyboardEvent]
-  bold: [KeyboardEvent]
-  italic: [KeyboardEvent]
   character: [KeyboardEvent]
 }
 
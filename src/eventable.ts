@@ -25,6 +25,8 @@
 //
 // Unsubscribe all listeners of all channels:
 // obj.off()
+//
+// notify() returns the return values of the called listeners.
 
 import type {
   EventableObject,
@@ -104,7 +106,7 @@ function getEventableModule<
       context: TContext | TEventName,
       event?: TEventName,
       ...args: TEventMap[TEventName]
-    ): void {
+    ): unknown[] {
       const allArgs = Array.from(arguments)
 
       let actualContext: TContext | undefined
@@ -127,11 +129,17 @@ function getEventableModule<
       }
 
       const eventListeners = listeners[actualEvent]
-      if (!eventListeners) return
+      if (!eventListeners) return []
 
       // Execute the newest listeners first.
       // Stop if a listener returns false.
-      eventListeners.every((listener) => listener.apply(actualContext, actualArgs) !== false)
+      const results: unknown[] = []
+      eventListeners.every((listener) => {
+        const listenerResult = listener.apply(actualContext, actualArgs)
+        results.push(listenerResult)
+        return listenerResult !== false
+      })
+      return results
     }
   }
 
@@ -43,3 +43,6 @@ export const selectionchange = hasNativeSelectionchangeSupport(document)
 
 // See Keyboard.prototype.preventContenteditableBug for more information.
 export const contenteditableSpanBug = !!webKit
+
+// Used to resolve the `Mod` key of keymap bindings (Cmd on macOS, Ctrl elsewhere).
+export const isMac = /Mac|iPhone|iPad|iPod/.test(window.navigator.platform || window.navigator.userAgent)
@@ -3,24 +3,37 @@ import error from './util/error.js'
 import highlightSupport from './highlight-support.js'
 import MonitoredHighlighting from './monitored-highlighting.js'
 import TextDiff from './plugins/text-diff/text-diff.js'
+import Annotations from './plugins/annotations/annotations.js'
+import FindReplace from './plugins/highlighting/find-replace.js'
+import Typography from './plugins/typography/typography.js'
+import type {FindMatch} from './plugins/highlighting/find-replace.js'
+import type {SearchOptions} from './plugins/highlighting/text-search.js'
 import type {
+  AnnotationOptions,
   HighlightOptions,
   MonitoredHighlightingConfig,
   SpellcheckSetupConfig,
   TextDiffOptions,
-  TextRange
+  TextRange,
+  TypographyOptions
 } from './plugin-types.js'
 
 declare module './core.js' {
   interface Editable {
     highlighting?: MonitoredHighlighting
     textDiff?: TextDiff
+    annotations?: Annotations
+    findReplace?: FindReplace
+    typography?: Typography
     spellcheck?: {
       checkSpelling: (elem: HTMLElement) => void
     }
     setupHighlighting(hightlightingConfig?: MonitoredHighlightingConfig): this
     setupSpellcheck(conf: SpellcheckSetupConfig): this
     setupTextDiff(config?: TextDiffOptions): this
+    setupAnnotations(config?: AnnotationOptions): this
+    setupTypography(config?: TypographyOptions): this
+    find(query: string, options?: SearchOptions): FindReplace
     highlight(options: HighlightOptions): number
     getHighlightPositions(options: {editableHost: HTMLElement, type?: string}): Record<string, TextRange>
     removeHighlight(options: {editableHost: HTMLElement, highlightId: string, raiseEvents?: boolean}): void
@@ -36,6 +49,7 @@ declare module './core.js' {
 Object.assign(Editable.prototype, {
   setupHighlighting(this: Editable, hightlightingConfig: MonitoredHighlightingConfig = {}) {
     this.highlighting = new MonitoredHighlighting(this, hightlightingConfig)
+    if (this.typography) this.highlighting.whitespace.allow(this.typography.isTypographicSpace)
     return this
   },
 
@@ -50,7 +64,9 @@ Object.assign(Editable.prototype, {
       throttle: conf.throttle,
       spellcheck: {
         marker: marker,
-        spellcheckService: conf.spellcheckService
+        spellcheckService: conf.spellcheckService,
+        addToDictionary: conf.addToDictionary,
+        suggest: conf.suggest
       }
     })
 
@@ -67,6 +83,26 @@ Object.assign(Editable.prototype, {
     return this
   },
 
+  setupAnnotations(this: Editable, config?: AnnotationOptions) {
+    this.annotations = new Annotations(this, config || {})
+    return this
+  },
+
+  setupTypography(this: Editable, config?: TypographyOptions) {
+    this.typography = new Typography(this, config || {})
+    // Do not highlight the spaces inserted by the typography rules.
+    this.highlighting?.whitespace.allow(this.typography.isTypographicSpace)
+    return this
+  },
+
+  // Highlight all matches of a query in all editable blocks.
+  // Replaces the highlights of a previous search.
+  find(this: Editable, query: string, options: SearchOptions = {}) {
+    this.findReplace?.clear()
+    this.findReplace = new FindReplace(this, query, options)
+    return this.findReplace
+  },
+
   highlight(this: Editable, {editableHost, text, highlightId, textRange, raiseEvents, type = 'comment'}: HighlightOptions) {
     if (!textRange) {
       const result = highlightSupport.highlightText(editableHost, text, highlightId, type, raiseEvents ? this.dispatcher : undefined, this.win)
@@ -116,10 +152,22 @@ Object.assign(Editable.prototype, {
 })
 
 export {Editable}
+export {
+  SpellcheckDictionary,
+  createLocalSpellcheckService,
+  createLocalSuggest,
+  createWorkerSpellcheckService,
+  handleSpellcheckRequests
+} from './plugins/highlighting/local-spellcheck.js'
+export type {SpellcheckDictionaries} from './plugins/highlighting/local-spellcheck.js'
 export type {
+  AnnotationOptions,
+  FindMatch,
   HighlightOptions,
   MonitoredHighlightingConfig,
+  SearchOptions,
   SpellcheckSetupConfig,
   TextDiffOptions,
-  TextRange
+  TextRange,
+  TypographyOptions
 }
@@ -0,0 +1,355 @@
+import Cursor from './cursor.js'
+import * as nodeType from './node-type.js'
+import * as rangeSaveRestore from './range-save-restore.js'
+import {createRangeFromCharacterRange, nodeContainsRange, toCharacterRange} from './util/dom.js'
+import type {RangeInfo} from './range-save-restore.js'
+import type {Editable} from './core.js'
+
+/**
+ * Undo and redo stack of an `Editable` instance.
+ *
+ * Every entry is a transaction that stores the markup of the affected
+ * blocks before and after a change. Block operations like split or merge
+ * remove and insert whole blocks, so each transaction remembers the window
+ * of siblings it affected and swaps the block elements back in when undone.
+ *
+ * The caret is stored as character offsets within its block. Within
+ * `transact()` the marker elements of `range-save-restore` are recorded
+ * as well, as they keep the position of a caret that ends up in another
+ * block. Typing and focus changes never touch the DOM of a block.
+ *
+ * Ui elements like highlights are not recorded, except for elements
+ * marked with `data-history="keep"` (e.g. annotation markers) whose
+ * position has to survive an undo.
+ */
+
+interface BlockSnapshot {
+  element: HTMLElement
+  html: string
+}
+
+interface SegmentState {
+  blocks: BlockSnapshot[]
+}
+
+interface HistorySegment {
+  parent: Node
+  previous: Node | null
+  next: Node | null
+}
+
+interface SelectionState {
+  host: HTMLElement
+  start: number
+  end: number
+  markers?: RangeInfo
+}
+
+interface HistoryState {
+  segments: SegmentState[]
+  selection?: SelectionState
+}
+
+export interface HistoryTransaction {
+  segments: HistorySegment[]
+  before: HistoryState
+  after: HistoryState
+  // Consecutive typing in the same block is grouped into one transaction.
+  typingHost?: HTMLElement
+  timestamp: number
+}
+
+export default class History {
+  public editable: Editable
+  public undoStack: HistoryTransaction[]
+  public redoStack: HistoryTransaction[]
+  // Maximum number of transactions kept on the undo stack.
+  public depth: number
+  // Typing within this delay (in ms) is merged into the previous transaction.
+  public groupDelay: number
+  // True while an undo or redo restores blocks. The change events
+  // of the restored blocks are fired within this phase.
+  public isApplying: boolean
+  private snapshots: Map<HTMLElement, HistoryState>
+  private isRecording: boolean
+
+  constructor (editable: Editable) {
+    this.editable = editable
+    this.undoStack = []
+    this.redoStack = []
+    this.depth = 100
+    this.groupDelay = 500
+    this.snapshots = new Map()
+    this.isRecording = false
+    this.isApplying = false
+
+    this.setupListeners()
+  }
+
+  setupListeners (): void {
+    this.editable.on('init', (editableHost: HTMLElement) => this.snapshot(editableHost))
+    this.editable.on('focus', (editableHost: HTMLElement) => this.snapshot(editableHost))
+    this.editable.on('change', (editableHost: HTMLElement) => this.onChange(editableHost))
+  }
+
+  canUndo (): boolean {
+    return this.undoStack.length > 0
+  }
+
+  canRedo (): boolean {
+    return this.redoStack.length > 0
+  }
+
+  clear (): void {
+    this.undoStack.length = 0
+    this.redoStack.length = 0
+    this.snapshots.clear()
+  }
+
+  // Record a change to one or more blocks as a single transaction.
+  //
+  // @param {Array of HTMLElement} The blocks that are about to be changed.
+  //   Blocks that are inserted or removed next to them are detected
+  //   automatically.
+  // @param {Function} Callback that performs the change.
+  transact<T> (editableHosts: HTMLElement[], mutate: () => T): T {
+    if (this.isRecording || this.isApplying) return mutate()
+
+    const segments = createSegments(editableHosts)
+    if (!segments.length) return mutate()
+
+    const before = this.captureState(segments, true)
+    this.isRecording = true
+    let result: T
+    try {
+      result = mutate()
+    } finally {
+      this.isRecording = false
+    }
+
+    const after = this.captureState(segments, true)
+    this.push({segments, before, after, timestamp: Date.now()})
+    return result
+  }
+
+  undo (): boolean {
+    const transaction = this.undoStack.pop()
+    if (!transaction) return false
+
+    this.apply(transaction, transaction.before)
+    this.redoStack.push(transaction)
+    return true
+  }
+
+  redo (): boolean {
+    const transaction = this.redoStack.pop()
+    if (!transaction) return false
+
+    this.apply(transaction, transaction.after)
+    this.undoStack.push(transaction)
+    return true
+  }
+
+  // Remember the current state of a block as the starting point
+  // for the next typing transaction.
+  snapshot (editableHost: HTMLElement): void {
+    if (this.isRecording || this.isApplying) return
+    const segments = createSegments([editableHost])
+    if (segments.length) this.snapshots.set(editableHost, this.captureState(segments))
+  }
+
+  onChange (editableHost: HTMLElement): void {
+    if (this.isRecording || this.isApplying) return
+
+    const before = this.snapshots.get(editableHost)
+    if (!before) return this.snapshot(editableHost)
+
+    const segments = createSegments([editableHost])
+    if (!segments.length) return
+    const after = this.captureState(segments)
+
+    const last = this.undoStack[this.undoStack.length - 1]
+    const now = Date.now()
+    if (last && last.typingHost === editableHost && !this.redoStack.length && now - last.timestamp < this.groupDelay) {
+      last.after = after
+      last.timestamp = now
+      this.snapshots.set(editableHost, after)
+      return
+    }
+
+    this.push({segments, before, after, typingHost: editableHost, timestamp: now})
+  }
+
+  private push (transaction: HistoryTransaction): void {
+    if (statesAreEqual(transaction.before, transaction.after)) return
+
+    this.undoStack.push(transaction)
+    if (this.undoStack.length > this.depth) this.undoStack.shift()
+    this.redoStack.length = 0
+    this.updateSnapshots(transaction.after)
+  }
+
+  private updateSnapshots (state: HistoryState): void {
+    for (const segment of state.segments) {
+      for (const {element} of segment.blocks) this.snapshot(element)
+    }
+  }
+
+  // @param {Array of HistorySegment}
+  // @param {Boolean} Record the selection with range markers as well.
+  //   The markers are inserted into the blocks, so this is only done
+  //   within transactions.
+  private captureState (segments: HistorySegment[], withMarkers = false): HistoryState {
+    const selection = this.editable.getSelection()
+    const blocks = segments.map((segment) => getSegmentBlocks(segment))
+    const selectionHost = selection && blocks.flat()
+      .find((block) => nodeContainsRange(block, selection.range))
+
+    let selectionState: SelectionState | undefined
+    if (selection && selectionHost) {
+      const {start, end} = toCharacterRange(selection.range, selectionHost)
+      selectionState = {host: selectionHost, start, end}
+      if (withMarkers) selectionState.markers = rangeSaveRestore.save(selection.range)
+    }
+
+    const state: HistoryState = {
+      segments: blocks.map((segmentBlocks) => ({
+        blocks: segmentBlocks.map((element) => ({element, html: serializeBlock(element)}))
+      })),
+      selection: selectionState
+    }
+
+    if (selectionState?.markers) {
+      const restoredRange = rangeSaveRestore.restore(selectionState.host, selectionState.markers)
+      if (restoredRange) new Cursor(selectionState.host, restoredRange).setVisibleSelection()
+    }
+
+    return state
+  }
+
+  private restoreSelection ({host, start, end, markers}: SelectionState): void {
+    const range = markers && rangeSaveRestore.restore(host, markers)
+    if (range) {
+      new Cursor(host, range).setVisibleSelection()
+    } else if (!host.textContent) {
+      this.editable.createCursorAtBeginning(host)?.setVisibleSelection()
+    } else if (start === end) {
+      this.editable.createCursorAtCharacterOffset({element: host, offset: start})
+    } else {
+      new Cursor(host, createRangeFromCharacterRange(host, start, end)).setVisibleSelection()
+    }
+  }
+
+  private apply (transaction: HistoryTransaction, state: HistoryState): void {
+    this.isApplying = true
+    const changedBlocks: HTMLElement[] = []
+
+    try {
+      transaction.segments.forEach((segment, index) => {
+        for (const block of getSegmentBlocks(segment)) block.remove()
+
+        for (const {element, html} of state.segments[index].blocks) {
+          element.innerHTML = html
+          segment.parent.insertBefore(element, segment.next)
+          changedBlocks.push(element)
+        }
+      })
+
+      if (state.selection) this.restoreSelection(state.selection)
+
+      // Markers that could not be resolved into a range would be removed
+      // when the content is extracted. Clean them up right away anyway.
+      for (const block of changedBlocks) removeRangeMarkers(block)
+
+      // Listeners may update ui elements of the restored blocks,
+      // so the snapshots are taken afterwards.
+      for (const block of changedBlocks) this.editable.dispatcher.notify('change', block)
+    } finally {
+      this.isApplying = false
+    }
+
+    for (const block of changedBlocks) this.snapshot(block)
+  }
+}
+
+// Private Helpers
+// ---------------
+
+const rangeMarkerSelector = '[id^="editable-range-boundary-"]'
+
+// Group the passed blocks into runs of adjacent siblings. Each run is
+// described by the nodes around it, which stay in place while the
+// blocks within the run are changed.
+function createSegments (editableHosts: HTMLElement[]): HistorySegment[] {
+  const segments: Array<HistorySegment & {last: HTMLElement}> = []
+  const hosts = editableHosts
+    .filter((host, index) => host.parentNode && editableHosts.indexOf(host) === index)
+    .sort((a, b) => a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1)
+
+  for (const host of hosts) {
+    const current = segments[segments.length - 1]
+    if (current && current.last.nextElementSibling === host) {
+      current.last = host
+      current.next = host.nextSibling
+      continue
+    }
+
+    segments.push({
+      parent: host.parentNode!,
+      previous: host.previousSibling,
+      next: host.nextSibling,
+      last: host
+    })
+  }
+
+  return segments.map(({parent, previous, next}) => ({parent, previous, next}))
+}
+
+function getSegmentBlocks (segment: HistorySegment): HTMLElement[] {
+  const blocks: HTMLElement[] = []
+  let node = segment.previous ? segment.previous.nextSibling : segment.parent.firstChild
+  while (node && node !== segment.next) {
+    if (node.nodeType === nodeType.elementNode) blocks.push(node as HTMLElement)
+    node = node.nextSibling
+  }
+  return blocks
+}
+
+const keptElementSelector = `${rangeMarkerSelector}, [data-history="keep"]`
+
+// Get the markup of a block without ui elements like highlights,
+// but with the range markers of a saved selection and kept elements.
+function serializeBlock (element: HTMLElement): string {
+  const clone = element.cloneNode(true) as HTMLElement
+  for (const elem of Array.from(clone.querySelectorAll('[data-editable]'))) {
+    if (elem.matches(keptElementSelector)) continue
+    const attr = elem.getAttribute('data-editable')
+    if (attr === 'remove' || attr === 'ui-remove') {
+      elem.remove()
+    } else if (attr === 'unwrap' || attr === 'ui-unwrap') {
+      const parent = elem.parentNode
+      if (!parent) continue
+      while (elem.firstChild) parent.insertBefore(elem.firstChild, elem)
+      elem.remove()
+    }
+  }
+  return clone.innerHTML
+}
+
+function removeRangeMarkers (element: HTMLElement): void {
+  for (const marker of Array.from(element.querySelectorAll(rangeMarkerSelector))) {
+    marker.remove()
+  }
+}
+
+function statesAreEqual (state1: HistoryState, state2: HistoryState): boolean {
+  const toHtml = (state: HistoryState) => state.segments
+    .map((segment) => segment.blocks.map(({html}) => html.replace(/<span id="editable-range-boundary-[^>]*>.*?<\/span>/g, '')).join(''))
+  const html1 = toHtml(state1)
+  const html2 = toHtml(state2)
+  const elements1 = state1.segments.flatMap((segment) => segment.blocks.map(({element}) => element))
+  const elements2 = state2.segments.flatMap((segment) => segment.blocks.map(({element}) => element))
+  return html1.join() === html2.join() &&
+    elements1.length === elements2.length &&
+    elements1.every((element, index) => element === elements2[index])
+}
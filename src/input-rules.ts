@@ -0,0 +1,153 @@
+import config from './config.js'
+import Cursor from './cursor.js'
+import * as nodeType from './node-type.js'
+import {getSmartQuote, getSmartQuotes} from './smartQuotes.js'
+import {createRangeFromCharacterRange} from './util/dom.js'
+import type {MarkupConfig} from './config.js'
+import type {SmartQuotesConfig} from './smartQuotes.js'
+
+/**
+ * Input rules format text while typing.
+ *
+ * A rule is a regular expression that is matched against the text before
+ * the cursor and a handler that replaces the matched text. The expression
+ * has to match up to the cursor, so rules usually end with `$`.
+ *
+ * Example:
+ * {match: /->$/, handler: (context) => replaceMatch(context, '→')}
+ *
+ * The `typography` and `markdown` presets are built with the helpers
+ * `textRule()` and `markRule()`, the `smartQuotes` preset with
+ * `smartQuotesRule()`.
+ */
+
+export interface InputRuleContext {
+  host: HTMLElement
+  match: RegExpExecArray
+  // Range around the matched text.
+  range: Range
+}
+
+export interface InputRule {
+  match: RegExp
+  // Return false if the rule did not apply.
+  handler: (context: InputRuleContext) => boolean | void
+}
+
+// Replace the matched text of a rule with a text or a node
+// and place the cursor after it.
+export function replaceMatch ({host, range}: InputRuleContext, replacement: Node | string): void {
+  const node = typeof replacement === 'string'
+    ? host.ownerDocument.createTextNode(replacement)
+    : replacement
+
+  range.deleteContents()
+  const cursor = new Cursor(host, range)
+  cursor.insertBefore(node)
+  cursor.setVisibleSelection()
+}
+
+// Create a rule that replaces the matched text with another text.
+export function textRule (match: RegExp, text: string): InputRule {
+  return {
+    match,
+    handler: (context) => replaceMatch(context, text)
+  }
+}
+
+// Create a rule that wraps the first capture group in a markup element
+// and removes the rest of the matched text (the delimiters). Inline
+// markup within the group is kept. The delimiters before the group
+// must not contain the text of the group.
+//
+// @param {RegExp} e.g. /\*\*([^*]+)\*\*$/
+// @param {String, Object or Function} A tag name, a markup config or a
+//   function returning a markup config (to read the current config).
+export function markRule (match: RegExp, markup: string | MarkupConfig | (() => MarkupConfig)): InputRule {
+  return {
+    match,
+    handler: (context) => {
+      const {name, attribs} = resolveMarkup(markup)
+      const elem = context.host.ownerDocument.createElement(name)
+      for (const attr in attribs) elem.setAttribute(attr, attribs[attr])
+
+      const [text, group] = context.match
+      const start = text.indexOf(group)
+      elem.appendChild(context.range.cloneContents())
+      deleteText(elem, start + group.length, text.length)
+      deleteText(elem, 0, start)
+      replaceMatch(context, elem)
+    }
+  }
+}
+
+// Create a rule that replaces a typed quote with the typographic quote.
+// The quotes come from the `quotes` and `singleQuotes` of the config
+// or the quote style of the language (see smartQuotes.ts).
+export function smartQuotesRule (quotesConfig: SmartQuotesConfig = {}): InputRule {
+  return {
+    match: /["'\u00AB\u00BB\u201C\u201D\u201E\u2018\u2019\u2039\u203A\u201A]$/,
+    handler: (context) => {
+      const {match, range} = context
+      const quotes = getSmartQuotes(quotesConfig, range.startContainer)
+      if (!quotes) return false
+
+      const charAfter = range.endContainer.nodeType === nodeType.textNode
+        ? (range.endContainer as Text).data.charAt(range.endOffset)
+        : ''
+      const quote = getSmartQuote(match.input.slice(0, match.index), match[0], charAfter, quotes)
+      if (!quote) return false
+      replaceMatch(context, quote)
+    }
+  }
+}
+
+export const typography: InputRule[] = [
+  textRule(/--$/, '–'),
+  textRule(/\.\.\.$/, '…'),
+  textRule(/\([cC]\)$/, '©')
+]
+
+export const markdown: InputRule[] = [
+  markRule(/\*\*([^*\s](?:[^*]*[^*\s])?)\*\*$/, () => config.boldMarkup),
+  markRule(/(?<![\w_])_([^_\s](?:[^_]*[^_\s])?)_$/, () => config.italicMarkup),
+  markRule(/`([^`]+)`$/, 'code')
+]
+
+export const smartQuotes: InputRule[] = [smartQuotesRule()]
+
+// Match a rule against the text before the cursor.
+export function matchInputRule (rule: InputRule, text: string): RegExpExecArray | undefined {
+  rule.match.lastIndex = 0
+  const match = rule.match.exec(text)
+  if (!match || !match[0] || match.index + match[0].length !== text.length) return undefined
+  return match
+}
+
+// Apply the first matching rule to the text before the cursor.
+//
+// @returns {Boolean} True if a rule was applied.
+export function applyInputRules (host: HTMLElement, rules: InputRule[], cursor: Cursor): boolean {
+  if (!cursor.isCursor) return false
+
+  const text = cursor.textBefore()
+  for (const rule of rules) {
+    const match = matchInputRule(rule, text)
+    if (!match) continue
+
+    const range = createRangeFromCharacterRange(host, match.index, text.length)
+    if (rule.handler({host, match, range}) !== false) return true
+  }
+  return false
+}
+
+// Delete the characters between two offsets of the text of an element.
+function deleteText (element: HTMLElement, start: number, end: number): void {
+  if (start < end) createRangeFromCharacterRange(element, start, end).deleteContents()
+}
+
+function resolveMarkup (markup: string | MarkupConfig | (() => MarkupConfig)): {name: string, attribs: Record<string, string>} {
+  if (typeof markup === 'string') return {name: markup, attribs: {}}
+  if (typeof markup === 'function') return markup()
+  return markup
+}
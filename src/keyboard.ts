@@ -48,7 +48,7 @@ export default class Keyboard {
     this.key = (Keyboard as unknown as KeyboardConstructor).key
   }
 
-  dispatchKeyEvent (event: KeyboardEvent, target: HTMLElement, notifyCharacterEvent?: boolean): void {
+  dispatchKeyEvent (event: KeyboardEvent, target: HTMLElement, notifyCharacterEvent?: boolean): unknown[] | undefined {
     switch (event.keyCode) {
       case this.key.left:
         return this.notify(target, 'left', event)
@@ -94,15 +94,7 @@ export default class Keyboard {
         return
 
       default:
-        // Added here to avoid using fall-through in the switch
-        // when b or i are pressed without ctrlKey or metaKey
-        if (event.keyCode === this.key.b && (event.ctrlKey || event.metaKey)) {
-          return this.notify(target, 'bold', event)
-        }
-        if (event.keyCode === this.key.i && (event.ctrlKey || event.metaKey)) {
-          return this.notify(target, 'italic', event)
-        }
-
+        // Shortcuts like bold or undo are bindings of the keymap (see keymap.ts).
         this.preventContenteditableBug(target, event)
         if (!notifyCharacterEvent) return
         // Don't notify character events as long as either the ctrl or
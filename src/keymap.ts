@@ -0,0 +1,206 @@
+import {isMac} from './feature-detection.js'
+import error from './util/error.js'
+
+export type KeymapHandler = (this: HTMLElement, event: KeyboardEvent, block: HTMLElement) => boolean | void
+// null turns a key combination off, including a default binding.
+export type KeymapCommand = string | KeymapHandler | null
+export type KeymapBindings = Record<string, KeymapCommand>
+
+export interface KeymapOptions {
+  // Only apply the bindings to blocks matching this selector.
+  selector?: string
+}
+
+interface KeyChord {
+  key: string
+  mod: boolean
+  ctrl: boolean
+  meta: boolean
+  alt: boolean
+  shift: boolean
+}
+
+interface KeymapBinding {
+  chord: KeyChord
+  command: KeymapCommand
+  selector?: string
+}
+
+// The built-in shortcuts. Bindings added with `editable.keymap()`
+// take precedence over these.
+export const defaultBindings: KeymapBindings = {
+  'Mod-b': 'toggleBold',
+  'Mod-i': 'toggleEmphasis',
+  'Mod-z': 'undo',
+  'Mod-Shift-z': 'redo',
+  'Mod-y': 'redo',
+  'Alt-Shift-ArrowUp': 'moveBlockUp',
+  'Alt-Shift-ArrowDown': 'moveBlockDown'
+}
+
+/**
+ * The Keymap module maps key combinations to commands.
+ *
+ * Key combinations are written as modifiers and a key separated by dashes,
+ * e.g. 'Mod-Shift-z' or 'Alt-ArrowUp'. The key is compared with `event.key`,
+ * so bindings follow the keyboard layout. `event.code` ('KeyK' or 'k') is only
+ * used if the key is not a letter or digit, e.g. for Alt characters on macOS.
+ * `Mod` is Cmd on macOS and Ctrl on all other platforms.
+ *
+ * A command is either the name of a command registered with `addCommand()`
+ * or a handler function. A handler can return false to let the key event
+ * pass through to other bindings and the default keyboard handling.
+ * A command set to null leaves the key event to the browser.
+ */
+export default class Keymap {
+  public bindings: KeymapBinding[]
+  public commands: Record<string, KeymapHandler>
+  public mac: boolean
+
+  constructor () {
+    this.bindings = []
+    this.commands = {}
+    this.mac = isMac
+  }
+
+  // Add key bindings. Bindings added later take precedence.
+  //
+  // @param {Object} Key combinations mapped to commands.
+  // @param {Object} options
+  // @param {String} options.selector Only apply to blocks matching this selector.
+  // @returns {Function} Removes the added bindings again.
+  add (bindings: KeymapBindings, {selector}: KeymapOptions = {}): () => void {
+    const added: KeymapBinding[] = []
+    for (const combination in bindings) {
+      const chord = parseChord(combination)
+      if (!chord) {
+        error(`Keymap: invalid key combination "${combination}"`)
+        continue
+      }
+      added.push({chord, command: bindings[combination], selector})
+    }
+
+    this.bindings.unshift(...added)
+    return () => {
+      this.bindings = this.bindings.filter((binding) => !added.includes(binding))
+    }
+  }
+
+  addCommand (name: string, handler: KeymapHandler): this {
+    this.commands[name] = handler
+    return this
+  }
+
+  // Run the command of the first binding matching a keydown event.
+  //
+  // @returns {Boolean} True if the event was handled by a binding.
+  handleKeydown (event: KeyboardEvent, block: HTMLElement): boolean {
+    if (!this.bindings.length) return false
+    const keys = getEventKeys(event)
+
+    for (const binding of this.bindings) {
+      if (!this.matches(binding.chord, event, keys)) continue
+      if (binding.selector && !block.matches(binding.selector)) continue
+      if (binding.command === null) return false
+
+      const handler = typeof binding.command === 'string'
+        ? this.commands[binding.command]
+        : binding.command
+      if (!handler) {
+        error(`Keymap: unknown command "${binding.command}"`)
+        continue
+      }
+
+      if (handler.call(block, event, block) === false) continue
+      event.preventDefault()
+      event.stopPropagation()
+      return true
+    }
+    return false
+  }
+
+  matches (chord: KeyChord, event: KeyboardEvent, keys: string[]): boolean {
+    if (!keys.includes(chord.key)) return false
+    if (event.ctrlKey !== (chord.ctrl || (chord.mod && !this.mac))) return false
+    if (event.metaKey !== (chord.meta || (chord.mod && this.mac))) return false
+    if (event.altKey !== chord.alt) return false
+
+    // Characters like '?' can only be typed with shift on most layouts.
+    const isShiftedCharacter = chord.key.length === 1 && chord.key.toLowerCase() === chord.key.toUpperCase()
+    return event.shiftKey === chord.shift || (!chord.shift && isShiftedCharacter)
+  }
+}
+
+// Private Helpers
+// ---------------
+
+const keyAliases: Record<string, string> = {
+  up: 'arrowup',
+  down: 'arrowdown',
+  left: 'arrowleft',
+  right: 'arrowright',
+  esc: 'escape',
+  space: ' '
+}
+
+// Used for events without a `key` property.
+const keyCodeNames: Record<number, string> = {
+  8: 'backspace',
+  9: 'tab',
+  13: 'enter',
+  27: 'escape',
+  32: ' ',
+  37: 'arrowleft',
+  38: 'arrowup',
+  39: 'arrowright',
+  40: 'arrowdown',
+  46: 'delete'
+}
+
+function parseChord (combination: string): KeyChord | undefined {
+  // A trailing dash is the '-' key itself, e.g. 'Mod--'.
+  const parts = combination.split(/-(?!$)/)
+  const key = normalizeKey(parts.pop() || '')
+  if (!key || (key.length > 1 && key.endsWith('-'))) return undefined
+
+  const chord: KeyChord = {key, mod: false, ctrl: false, meta: false, alt: false, shift: false}
+  for (const modifier of parts) {
+    switch (modifier.toLowerCase()) {
+      case 'mod': chord.mod = true; break
+      case 'ctrl':
+      case 'control': chord.ctrl = true; break
+      case 'cmd':
+      case 'meta': chord.meta = true; break
+      case 'alt':
+      case 'option': chord.alt = true; break
+      case 'shift': chord.shift = true; break
+      default: return undefined
+    }
+  }
+  return chord
+}
+
+function normalizeKey (key: string): string {
+  const name = key.length === 1 ? key.toLowerCase() : key.toLowerCase().replace(/^key(?=[a-z]$)|^digit(?=\d$)/, '')
+  return keyAliases[name] || name
+}
+
+// Get all names a keydown event can be matched with, e.g.
+// ['˚', 'k'] for `event.key` '˚' and `event.code` 'KeyK' (Alt-k on macOS).
+// The code is not used for letters and digits, as it does not follow the
+// layout: Ctrl-y on a German keyboard has the code 'KeyZ'.
+function getEventKeys (event: KeyboardEvent): string[] {
+  const keys: string[] = []
+  if (event.key) keys.push(normalizeKey(event.key))
+  if (event.code && !/^[a-z0-9]$/i.test(event.key)) keys.push(normalizeKey(event.code))
+
+  if (!keys.length && event.keyCode) {
+    const keyCode = event.keyCode
+    if ((keyCode >= 65 && keyCode <= 90) || (keyCode >= 48 && keyCode <= 57)) {
+      keys.push(String.fromCharCode(keyCode).toLowerCase())
+    } else if (keyCodeNames[keyCode]) {
+      keys.push(keyCodeNames[keyCode])
+    }
+  }
+  return keys
+}
@@ -0,0 +1,197 @@
+// List items as editable blocks.
+//
+// Every <li> is its own block. To keep the items flat siblings, a nested
+// list is placed directly after its parent item instead of inside of it:
+//
+// <ul>
+//   <li>One</li>
+//   <ul>
+//     <li>Nested</li>
+//   </ul>
+//   <li>Two</li>
+// </ul>
+//
+// This is not valid html, so extracted content has every nested list
+// inside of its parent item again (see nestListsInItems()).
+
+export function isListItem (elem: Element | null | undefined): boolean {
+  return elem?.nodeName === 'LI'
+}
+
+export function isList (elem: Element | null | undefined): boolean {
+  return elem?.nodeName === 'UL' || elem?.nodeName === 'OL'
+}
+
+// An item without text (zero width spaces are ignored).
+export function isEmptyItem (item: HTMLElement): boolean {
+  return !(item.textContent || '').replace(/\uFEFF/g, '').trim()
+}
+
+// Get the outermost list of an item.
+export function getRootList (item: HTMLElement): HTMLElement | undefined {
+  let list = isList(item.parentElement) ? item.parentElement! : undefined
+  while (list && isList(list.parentElement)) list = list.parentElement!
+  return list
+}
+
+// Get the nesting level of an item (0 for items of the outermost list).
+export function getLevel (item: HTMLElement): number {
+  let level = -1
+  let list = item.parentElement
+  while (isList(list)) {
+    level += 1
+    list = list!.parentElement
+  }
+  return level
+}
+
+// Nest an item into the list of the previous item.
+// The nested list of the item moves along with it.
+//
+// @returns {Boolean} False if there is no previous item.
+export function indent (item: HTMLElement): boolean {
+  const list = item.parentElement
+  const previous = item.previousElementSibling
+  if (!list || !isList(list) || !previous) return false
+
+  const children = isList(item.nextElementSibling) ? item.nextElementSibling : undefined
+  let nestedList = previous as HTMLElement
+  if (!isList(previous)) {
+    nestedList = item.ownerDocument.createElement(list.nodeName.toLowerCase())
+    list.insertBefore(nestedList, item)
+  }
+
+  nestedList.appendChild(item)
+  if (children) nestedList.appendChild(children)
+  return true
+}
+
+// Move a nested item one level up. The following items of its list
+// become its nested items.
+//
+// @returns {Boolean} False if the item is not nested.
+export function outdent (item: HTMLElement): boolean {
+  const list = item.parentElement
+  const parentList = list?.parentElement
+  if (!list || !isList(list) || !parentList || !isList(parentList)) return false
+
+  // The nested items of the item stay on their level.
+  const following = collectFollowingSiblings(item)
+  const children = isList(following[0]) ? following.shift() : undefined
+  if (children) following.unshift(...Array.from(children.children))
+
+  parentList.insertBefore(item, list.nextSibling)
+  if (following.length) {
+    const nestedList = item.ownerDocument.createElement(list.nodeName.toLowerCase())
+    for (const elem of following) nestedList.appendChild(elem)
+    parentList.insertBefore(nestedList, item.nextSibling)
+  }
+  children?.remove()
+
+  if (!list.children.length) list.remove()
+  return true
+}
+
+// Replace an item of an outermost list with a block after the list.
+// The items after it are moved into a new list after the block.
+//
+// @param {String} tagName The element of the new block.
+// @returns {HTMLElement} The new block.
+export function exitList (item: HTMLElement, tagName: string = 'p'): HTMLElement {
+  const doc = item.ownerDocument
+  const list = item.parentElement!
+  const newBlock = doc.createElement(tagName)
+  while (item.firstChild) newBlock.appendChild(item.firstChild)
+
+  const following = collectFollowingSiblings(item)
+  list.parentNode?.insertBefore(newBlock, list.nextSibling)
+  if (following.length) {
+    const nextList = list.cloneNode(false) as HTMLElement
+    if (nextList.id) nextList.removeAttribute('id')
+    for (const elem of following) nextList.appendChild(elem)
+    newBlock.parentNode?.insertBefore(nextList, newBlock.nextSibling)
+  }
+
+  item.remove()
+  if (!list.children.length) list.remove()
+  return newBlock
+}
+
+// Get the item before or after an item in the order the items are
+// displayed (across nesting levels).
+export function getAdjacentItem (item: HTMLElement, direction: 'before' | 'after'): HTMLElement | undefined {
+  const rootList = getRootList(item)
+  if (!rootList) return undefined
+  const items = Array.from(rootList.querySelectorAll('li')) as HTMLElement[]
+  const index = items.indexOf(item)
+  return items[direction === 'before' ? index - 1 : index + 1]
+}
+
+// Get the item before or after an item on the same level.
+export function getSiblingItem (item: HTMLElement, direction: 'before' | 'after'): HTMLElement | undefined {
+  let sibling = direction === 'before' ? item.previousElementSibling : item.nextElementSibling
+  while (sibling && !isListItem(sibling)) {
+    sibling = direction === 'before' ? sibling.previousElementSibling : sibling.nextElementSibling
+  }
+  return (sibling as HTMLElement) || undefined
+}
+
+// Swap an item with the item before or after it on the same level.
+// The nested lists of both items move along with them.
+//
+// @returns {Boolean} False if there is no item to swap with.
+export function moveItem (item: HTMLElement, direction: 'before' | 'after'): boolean {
+  const sibling = getSiblingItem(item, direction)
+  if (!sibling) return false
+
+  const moved = isList(item.nextElementSibling) ? [item, item.nextElementSibling!] : [item]
+  if (direction === 'before') {
+    sibling.before(...moved)
+  } else {
+    const siblingEnd = isList(sibling.nextElementSibling) ? sibling.nextElementSibling! : sibling
+    siblingEnd.after(...moved)
+  }
+  return true
+}
+
+// Remove lists that were left without items.
+export function removeEmptyLists (rootList: HTMLElement): void {
+  for (const list of Array.from(rootList.querySelectorAll('ul, ol')).reverse()) {
+    if (!list.children.length) list.remove()
+  }
+  if (!rootList.children.length) rootList.remove()
+}
+
+// Move the nested lists of an item directly after it, the layout of
+// items that are editable blocks. Lists in valid html have them inside.
+export function unnestLists (item: HTMLElement): void {
+  let previous: Element = item
+  for (const nestedList of Array.from(item.children).filter(isList)) {
+    previous.after(nestedList)
+    previous = nestedList
+  }
+}
+
+// Move every nested list into the item before it. A nested list
+// without an item before it gets an item of its own.
+export function nestListsInItems (container: Element): void {
+  for (const nestedList of Array.from(container.querySelectorAll('ul, ol'))) {
+    if (!isList(nestedList.parentElement)) continue
+    let item = nestedList.previousElementSibling
+    if (!isListItem(item)) {
+      item = nestedList.ownerDocument.createElement('li')
+      nestedList.before(item)
+    }
+    item!.appendChild(nestedList)
+  }
+}
+
+function collectFollowingSiblings (elem: Element): Element[] {
+  const siblings: Element[] = []
+  let next = elem.nextElementSibling
+  while (next) {
+    siblings.push(next)
+    next = next.nextElementSibling
+  }
+  return siblings
+}
@@ -0,0 +1,137 @@
+import config from './config.js'
+import * as content from './content.js'
+import * as nodeType from './node-type.js'
+import * as string from './util/string.js'
+import type {MarkupConfig} from './config.js'
+
+/**
+ * Markdown import and export for editable blocks.
+ *
+ * Only the inline formatting editable supports is mapped:
+ * - `boldMarkup`      <-> **text**
+ * - `italicMarkup`    <-> _text_ (or *text*)
+ * - `underlineMarkup` <-> ++text++
+ * - `linkMarkup`      <-> [text](href)
+ * - `<br>`            <-> a single newline
+ *
+ * Blocks are separated by an empty line.
+ */
+
+const blockSeparator = /\n[ \t]*\n+/
+const markdownEscapes = /\\([\\`*_[\]()+#!-])/g
+const escapePlaceholder = /\u0000(\d+)\u0000/g
+
+// Get the content of an editable block as Markdown.
+//
+// @param {HTMLElement} The editable host.
+// @returns {String} Markdown string.
+export function toMarkdown (host: HTMLElement): string {
+  const container = document.createElement('div')
+  container.innerHTML = content.extractContent(host)
+  return serializeChildren(container)
+}
+
+// Convert a Markdown string into editable blocks.
+//
+// @param {String} Markdown string, blocks are separated by an empty line.
+// @returns {Array of Strings} One html string per block.
+export function fromMarkdown (markdown: string): string[] {
+  return markdown
+    .replace(/\r\n?/g, '\n')
+    .split(blockSeparator)
+    .map((block) => block.replace(/^\n+|\n+$/g, ''))
+    .filter((block) => block !== '')
+    .map((block) => parseInline(block))
+}
+
+// Check if a plain text string contains any Markdown syntax we can convert.
+export function isMarkdown (text: string): boolean {
+  return /\*\*\S[\s\S]*?\*\*/.test(text) ||
+    /\+\+\S[\s\S]*?\+\+/.test(text) ||
+    /\[[^\]\n]+\]\([^)\s]+\)/.test(text) ||
+    /(^|[^\w*])[*_][^\s*_][^*_\n]*[*_](?![\w*])/.test(text)
+}
+
+// Export Helpers
+// --------------
+
+function serializeChildren (node: Node): string {
+  return Array.from(node.childNodes)
+    .map((child) => serializeNode(child))
+    .join('')
+}
+
+function serializeNode (node: Node): string {
+  if (node.nodeType === nodeType.textNode) return escapeMarkdown((node as Text).nodeValue || '')
+  if (node.nodeType !== nodeType.elementNode) return ''
+
+  const elem = node as HTMLElement
+  const nodeName = elem.nodeName.toLowerCase()
+  if (nodeName === 'br') return '\n'
+
+  const inner = serializeChildren(elem)
+  if (!inner.trim()) return inner
+
+  if (nodeName === config.boldMarkup.name) return wrapInline(inner, '**')
+  if (nodeName === config.italicMarkup.name) return wrapInline(inner, '_')
+  if (nodeName === config.underlineMarkup.name) return wrapInline(inner, '++')
+  if (nodeName === config.linkMarkup.name && elem.getAttribute('href')) {
+    return `[${inner}](${encodeHref(elem.getAttribute('href')!)})`
+  }
+  return inner
+}
+
+// Parentheses and whitespace would end the link destination.
+// encodeURIComponent() leaves parentheses as they are.
+function encodeHref (href: string): string {
+  return href.replace(/[()\s]/g, (char) => {
+    if (char === '(') return '%28'
+    if (char === ')') return '%29'
+    return encodeURIComponent(char)
+  })
+}
+
+// Markdown delimiters must not be surrounded by whitespace on the inside,
+// so leading and trailing whitespace is moved outside of the delimiters.
+function wrapInline (text: string, delimiter: string): string {
+  const [, leading, inner, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!
+  return `${leading}${delimiter}${inner}${delimiter}${trailing}`
+}
+
+function escapeMarkdown (text: string): string {
+  return text.replace(/[\\`*_[\]]|\+\+/g, (match) => match.split('').map((char) => `\\${char}`).join(''))
+}
+
+// Import Helpers
+// --------------
+
+function parseInline (markdown: string): string {
+  const escaped: string[] = []
+  let html = string.escapeHtml(markdown)
+    .replace(markdownEscapes, (match, char: string) => {
+      escaped.push(char)
+      return `\u0000${escaped.length - 1}\u0000`
+    })
+
+  html = html
+    .replace(/\[([^\]\n]+)\]\(([^)\s]+)\)/g, (match, text: string, href: string) => {
+      // Links to scripts are dropped, only their text is kept
+      if (string.isScriptUrl(href)) return text
+      return wrapTag(config.linkMarkup, text, {href: href.replace(/"/g, '&quot;')})
+    })
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, (match, text: string) => wrapTag(config.boldMarkup, text))
+    .replace(/\+\+(?=\S)([\s\S]*?\S)\+\+/g, (match, text: string) => wrapTag(config.underlineMarkup, text))
+    .replace(/(^|[^\w*])\*(?=[^\s*])([^*\n]*?[^\s*])\*(?![\w*])/g, (match, before: string, text: string) => before + wrapTag(config.italicMarkup, text))
+    .replace(/(^|[^\w_])_(?=[^\s_])([^_\n]*?[^\s_])_(?![\w_])/g, (match, before: string, text: string) => before + wrapTag(config.italicMarkup, text))
+    .replace(/\n/g, '<br>')
+
+  return html.replace(escapePlaceholder, (match, index: string) => string.escapeHtml(escaped[Number(index)]))
+}
+
+function wrapTag (markup: MarkupConfig, text: string, attributes: Record<string, string> = {}): string {
+  const attribs = {...markup.attribs, ...attributes}
+  const attributeString = Object.keys(attribs)
+    .map((name) => ` ${name}="${attribs[name]}"`)
+    .join('')
+  return `<${markup.name}${attributeString}>${text}</${markup.name}>`
+}
@@ -1,4 +1,5 @@
 import * as nodeType from './node-type.js'
+import NodeIterator from './node-iterator.js'
 import {deepMerge} from './util/merge.js'
 import * as content from './content.js'
 import highlightText from './highlight-text.js'
@@ -7,14 +8,18 @@ import WhitespaceHighlighting from './plugins/highlighting/whitespace-highlighti
 import {searchAllWords} from './plugins/highlighting/text-search.js'
 import MatchCollection from './plugins/highlighting/match-collection.js'
 import highlightSupport from './highlight-support.js'
-import {domArray, domSelector} from './util/dom.js'
+import {closest, domArray, domSelector, getLang} from './util/dom.js'
+import error from './util/error.js'
+import type Cursor from './cursor.js'
 import type {Editable} from './core.js'
 import type {
   MonitoredHighlightingConfig,
   PendingEditableTimeout,
   ResolvedMonitoredHighlightingConfig,
-  SpellcheckCheckCallback,
-  SpellcheckServiceHandler
+  HighlightMarkerInfo,
+  SpellcheckInfo,
+  SpellcheckServiceHandler,
+  SpellcheckUpdate
 } from './plugin-types.js'
 
 // Spellcheck and Whitespace Highlighting
@@ -25,6 +30,24 @@ import type {
 // service after the content has changed.
 import type {Match} from './plugins/highlighting/text-search.js'
 
+type HighlightMatch = Match & {id?: string}
+
+interface RenderedMarker extends HighlightMarkerInfo {
+  elements: Element[]
+}
+
+interface LanguageSegment {
+  lang: string
+  // Offset of the segment in the text of the block
+  start: number
+  text: string
+}
+
+// Words of a block that are sent to the spellcheck service
+const wordRegex = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}\p{N}]+)*/gu
+// Sentences end with a line break or with . ! ? followed by whitespace
+const sentenceSeparator = /(?<=[.!?])\s+|\n/
+
 export default class MonitoredHighlighting {
   public editable: Editable
   public win: Window
@@ -35,6 +58,11 @@ export default class MonitoredHighlighting {
   public spellcheckMarkerNode: HTMLElement
   public spellcheckService: SpellcheckService
   public whitespace: typeof WhitespaceHighlighting.prototype
+  // Checked words of a block by language: true if a word is misspelled
+  public checkedWords: WeakMap<HTMLElement, Map<string, Map<string, boolean>>>
+  // Blocks whose highlights wait for the end of an IME composition
+  public deferredEditableHosts: Set<HTMLElement>
+  private markerCounter: number
 
   constructor (editable: Editable, configuration: MonitoredHighlightingConfig = {}) {
     this.editable = editable
@@ -42,6 +70,9 @@ export default class MonitoredHighlighting {
     this.focusedEditableHost = undefined
     this.currentlyCheckedEditableHost = undefined
     this.timeout = {} as PendingEditableTimeout
+    this.checkedWords = new WeakMap()
+    this.deferredEditableHosts = new Set()
+    this.markerCounter = 0
 
     const noopSpellcheckService: SpellcheckServiceHandler = (_text, callback) => callback()
     const defaultConfig: ResolvedMonitoredHighlightingConfig = {
@@ -81,7 +112,7 @@ export default class MonitoredHighlighting {
     }
 
     this.spellcheckMarkerNode = spellcheckMarkerNode
-    this.spellcheckService = new SpellcheckService(spellcheckService)
+    this.spellcheckService = new SpellcheckService(spellcheckService, this.config.spellcheck.suggest)
     this.whitespace = new WhitespaceHighlighting(whitespaceMarkerNode)
 
     this.setupListeners()
@@ -101,6 +132,7 @@ export default class MonitoredHighlighting {
     if (this.config.checkOnInit) {
       this.editable.on('init', (editableHost: HTMLElement) => this.onInit(editableHost))
     }
+    this.editable.on('compositionEnd', () => this.onCompositionEnd())
   }
 
   onInit (editableHost: HTMLElement): void {
@@ -120,6 +152,12 @@ export default class MonitoredHighlighting {
     }
   }
 
+  onCompositionEnd (): void {
+    const editableHosts = [...this.deferredEditableHosts]
+    this.deferredEditableHosts.clear()
+    for (const editableHost of editableHosts) this.updateHighlights(editableHost)
+  }
+
   onChange (editableHost: HTMLElement): void {
     if (this.config.checkOnChange) {
       this.editableHasChanged(editableHost, this.config.throttle)
@@ -149,67 +187,248 @@ export default class MonitoredHighlighting {
     }
   }
 
+  // The text of a block is split into segments by the nearest lang
+  // attribute and the segments into sentences. Only the sentences with
+  // words that were not checked before in this block are sent to the
+  // spellcheck service, so the service still gets the context of a word.
   highlight (editableHost: HTMLElement): void {
-    const textBefore = highlightText.extractText(editableHost)
+    const uncheckedSentences = new Map<string, string[]>()
+    for (const {lang, text} of this.getLanguageSegments(editableHost)) {
+      const checkedWords = this.getCheckedWords(editableHost, lang)
+      for (const sentence of text.split(sentenceSeparator)) {
+        const isUnchecked = [...sentence.matchAll(wordRegex)].some(([word]) => !checkedWords.has(word))
+        if (isUnchecked) uncheckedSentences.set(lang, [...uncheckedSentences.get(lang) || [], sentence])
+      }
+    }
 
-    // getSpellcheck
-    this.spellcheckService.check(textBefore, ((
-      err: null,
-      misspelledWords?: string[] | null
-    ) => {
-      if (err || !editableHost.isConnected) { return } // return in case the host was removed from the dom
+    // Update the highlights once all languages are checked
+    let pending = 1
+    const onChecked = () => {
+      pending -= 1
+      if (pending === 0) this.updateHighlights(editableHost)
+    }
 
-      // refresh the text
-      const text = highlightText.extractText(editableHost)
+    for (const [lang, sentences] of uncheckedSentences) {
+      const text = sentences.join('\n')
+      pending += 1
+
+      // getSpellcheck
+      this.spellcheckService.check(text, (err, misspelledWords) => {
+        if (err) {
+          error('Error in spellcheckService:', err)
+        } else {
+          const checkedWords = this.getCheckedWords(editableHost, lang)
+          for (const [word] of text.matchAll(wordRegex)) checkedWords.set(word, false)
+          for (const word of misspelledWords || []) {
+            if (!this.spellcheckService.isIgnored(word)) checkedWords.set(word, true)
+          }
+        }
+        onChecked()
+      }, lang || undefined)
+    }
+    onChecked()
+  }
 
-      const matchCollection = new MatchCollection()
+  updateHighlights (editableHost: HTMLElement): void {
+    if (!editableHost.isConnected) return // return in case the host was removed from the dom
+    // Inserting the markers would break an active IME composition
+    if (this.editable.isComposing(editableHost)) {
+      this.deferredEditableHosts.add(editableHost)
+      return
+    }
+
+    // refresh the text
+    const text = highlightText.extractText(editableHost)
+    const segments = this.getLanguageSegments(editableHost)
+    this.pruneCheckedWords(editableHost, segments)
+
+    const matchCollection = new MatchCollection()
+
+    for (const segment of segments) {
+      const checkedWords = this.getCheckedWords(editableHost, segment.lang)
+      const misspelled = [...checkedWords]
+        .filter(([word, isMisspelled]) => isMisspelled && !this.spellcheckService.isIgnored(word))
+        .map(([word]) => word)
+      if (!misspelled.length) continue
+
+      // Unique ids allow to address a misspelling in replaceMisspelling()
+      const matches = searchAllWords(segment.text, misspelled, this.spellcheckMarkerNode)
+        .map((match) => ({
+          ...match,
+          startIndex: match.startIndex + segment.start,
+          endIndex: match.endIndex + segment.start,
+          id: `spellcheck-${++this.markerCounter}`
+        }))
+      matchCollection.addMatches(matches)
+    }
 
-      if (misspelledWords && misspelledWords.length > 0) {
-        const matches = searchAllWords(text, misspelledWords, this.spellcheckMarkerNode)
-        matchCollection.addMatches(matches)
+    const langAt = (index: number) => segments.find(({start, text}) => index < start + text.length)?.lang || ''
+    const whitespaceMatches = this.whitespace.findMatches(text, langAt)
+    if (whitespaceMatches) {
+      // Convert WhitespaceMatch[] to Match[]
+      const matches: HighlightMatch[] = whitespaceMatches.map(m => ({
+        startIndex: m.startIndex || 0,
+        endIndex: m.endIndex,
+        match: m.match,
+        marker: m.marker,
+        id: `whitespace-${++this.markerCounter}`
+      }))
+      matchCollection.addMatches(matches)
+    }
+
+    this.safeHighlightMatches(editableHost, matchCollection.matches)
+  }
+
+  // Split the text of a block (see highlightText.extractText())
+  // into segments with the same language.
+  getLanguageSegments (editableHost: HTMLElement): LanguageSegment[] {
+    const segments: LanguageSegment[] = []
+    const iterator = new NodeIterator(editableHost)
+    let offset = 0
+    let next: Node | undefined
+    while ((next = iterator.getNext())) {
+      let text: string
+      if (next.nodeType === nodeType.textNode && (next as Text).data !== '') {
+        text = (next as Text).data
+      } else if (next.nodeType === nodeType.elementNode && next.nodeName === 'BR') {
+        text = '\n'
+      } else {
+        continue
       }
 
-      const whitespaceMatches = this.whitespace.findMatches(text)
-      if (whitespaceMatches) {
-        // Convert WhitespaceMatch[] to Match[]
-        const matches: Match[] = whitespaceMatches.map(m => ({
-          startIndex: m.startIndex || 0,
-          endIndex: m.endIndex,
-          match: m.match,
-          marker: m.marker
-        }))
-        matchCollection.addMatches(matches)
+      const lang = getLang(next)
+      const segment = segments[segments.length - 1]
+      if (segment && segment.lang === lang) {
+        segment.text += text
+      } else {
+        segments.push({lang, start: offset, text})
       }
+      offset += text.length
+    }
+    return segments
+  }
+
+  getCheckedWords (editableHost: HTMLElement, lang: string): Map<string, boolean> {
+    let languages = this.checkedWords.get(editableHost)
+    if (!languages) {
+      languages = new Map()
+      this.checkedWords.set(editableHost, languages)
+    }
+    let checkedWords = languages.get(lang)
+    if (!checkedWords) {
+      checkedWords = new Map()
+      languages.set(lang, checkedWords)
+    }
+    return checkedWords
+  }
 
-      this.safeHighlightMatches(editableHost, matchCollection.matches)
-    }) as SpellcheckCheckCallback)
+  // Forget the words that were removed from the block. Misspellings
+  // reported by the service are kept as long as they are in the text
+  // (they may not be words of wordRegex, e.g. "e-mail").
+  pruneCheckedWords (editableHost: HTMLElement, segments: LanguageSegment[]): void {
+    const languages = this.checkedWords.get(editableHost)
+    if (!languages) return
+
+    for (const [lang, checkedWords] of languages) {
+      const text = segments.filter((segment) => segment.lang === lang).map((segment) => segment.text).join('\n')
+      const words = new Set(text.match(wordRegex))
+      for (const [word, isMisspelled] of checkedWords) {
+        if (words.has(word) || (isMisspelled && text.includes(word))) continue
+        checkedWords.delete(word)
+      }
+      if (!checkedWords.size) languages.delete(lang)
+    }
   }
 
   // Calls highlightMatches internally but ensures
   // that the selection stays the same
   safeHighlightMatches (editableHost: HTMLElement, matches: Match[]): void {
-    const selection = this.editable.getSelection(editableHost)
-    if (selection) {
-      selection.retainVisibleSelection(() => {
-        this.highlightMatches(editableHost, matches)
-      })
-    } else {
-      this.highlightMatches(editableHost, matches)
+    let update: SpellcheckUpdate = {added: [], removed: []}
+    const {added, removed} = this.diffHighlights(editableHost, matches)
+    if (added.length || removed.length) {
+      const selection = this.editable.getSelection(editableHost)
+      if (selection) {
+        selection.retainVisibleSelection(() => {
+          update = this.highlightMatches(editableHost, matches)
+        })
+      } else {
+        update = this.highlightMatches(editableHost, matches)
+      }
     }
     if (this.editable.dispatcher) {
-      this.editable.dispatcher.notify('spellcheckUpdated', editableHost)
+      this.editable.dispatcher.notify('spellcheckUpdated', editableHost, update)
+    }
+  }
+
+  // Update the highlights of a block. Only the markers that changed
+  // are removed or inserted, so unchanged words are not touched.
+  highlightMatches (editableHost: HTMLElement, matches: Match[]): SpellcheckUpdate {
+    const {added, removed} = this.diffHighlights(editableHost, matches)
+
+    for (const marker of removed) {
+      for (const elem of marker.elements) content.unwrap(elem)
+    }
+    if (added.length > 0) {
+      highlightText.highlightMatches(editableHost, added)
+    }
+
+    return {
+      added: added.map((match) => ({
+        wordId: String(match.id ?? match.startIndex),
+        type: getHighlightType(match),
+        text: match.match,
+        start: match.startIndex,
+        end: match.endIndex
+      })),
+      removed: removed.map(({elements, ...marker}) => marker)
     }
   }
 
-  highlightMatches (editableHost: HTMLElement, matches: Match[]): void {
-    // Remove old highlights
-    this.removeHighlights(editableHost)
+  // Compare the matches with the markers in the block.
+  diffHighlights (editableHost: HTMLElement, matches: HighlightMatch[]): {added: HighlightMatch[], removed: RenderedMarker[]} {
+    const markers = this.getRenderedMarkers(editableHost)
+    const added = (matches || []).filter((match) => {
+      const index = markers.findIndex((marker) => marker.type === getHighlightType(match) &&
+        marker.start === match.startIndex && marker.end === match.endIndex && marker.text === match.match)
+      if (index === -1) return true
+      markers.splice(index, 1)
+      return false
+    })
+    return {added, removed: markers}
+  }
 
-    // Create new highlights
-    if (matches && matches.length > 0) {
-      // const span = this.createMarkerNode()
-      highlightText.highlightMatches(editableHost, matches)
+  // Get the spellcheck and whitespace markers of a block with their
+  // position in the text (see highlightText.extractText()).
+  getRenderedMarkers (editableHost: HTMLElement): RenderedMarker[] {
+    const markers = new Map<string, RenderedMarker>()
+    const iterator = new NodeIterator(editableHost)
+    let offset = 0
+    let next: Node | undefined
+    while ((next = iterator.getNext())) {
+      if (next.nodeType === nodeType.elementNode && next.nodeName === 'BR') {
+        offset += 1
+        continue
+      }
+      if (next.nodeType !== nodeType.textNode || !(next as Text).data) continue
+
+      const data = (next as Text).data
+      for (let elem = next.parentElement; elem && elem !== editableHost; elem = elem.parentElement) {
+        const type = elem.getAttribute('data-highlight')
+        if (type !== 'spellcheck' && type !== 'whitespace') continue
+
+        const wordId = elem.getAttribute('data-word-id') || ''
+        let marker = markers.get(wordId)
+        if (!marker) {
+          marker = {wordId, type, text: '', start: offset, end: offset, elements: []}
+          markers.set(wordId, marker)
+        }
+        if (!marker.elements.includes(elem)) marker.elements.push(elem)
+        marker.text += data
+        marker.end = offset + data.length
+      }
+      offset += data.length
     }
+    return [...markers.values()]
   }
 
   removeHighlights (editableHost: HTMLElement | string): void {
@@ -226,26 +445,8 @@ export default class MonitoredHighlighting {
     editableHost = host
     const selection = this.editable.getSelection(editableHost)
     if (selection && selection.isCursor) {
-      let elementAtCursor: Node | null = selection.range.startContainer
-      if (elementAtCursor.nodeType === nodeType.textNode) {
-        elementAtCursor = elementAtCursor.parentNode
-      }
-
-      let wordId
-      while (elementAtCursor) {
-        if (elementAtCursor === editableHost) return
-        if (elementAtCursor.nodeType !== nodeType.elementNode) {
-          elementAtCursor = elementAtCursor.parentNode
-          continue
-        }
-        const highlightElement = elementAtCursor as Element
-        const highlightType = highlightElement.getAttribute('data-highlight')
-        if (highlightType === 'spellcheck' || highlightType === 'whitespace') {
-          wordId = highlightElement.getAttribute('data-word-id')
-          break
-        }
-        elementAtCursor = elementAtCursor.parentNode
-      }
+      const highlightElement = this.getHighlightElementAt(host, selection.range.startContainer, ['spellcheck', 'whitespace'])
+      const wordId = highlightElement?.getAttribute('data-word-id')
 
       if (wordId) {
         selection.retainVisibleSelection(() => {
@@ -257,4 +458,101 @@ export default class MonitoredHighlighting {
     }
   }
 
+  // Find the highlight element of one of the types around a node.
+  getHighlightElementAt (editableHost: HTMLElement, node: Node, types: string[]): Element | undefined {
+    let elem: Node | null = node.nodeType === nodeType.textNode ? node.parentNode : node
+    while (elem && elem !== editableHost) {
+      if (elem.nodeType === nodeType.elementNode) {
+        const highlightType = (elem as Element).getAttribute('data-highlight')
+        if (highlightType && types.includes(highlightType)) return elem as Element
+      }
+      elem = elem.parentNode
+    }
+    return undefined
+  }
+
+  // Spellcheck Actions
+  // ------------------
+
+  // Get the misspelled word at the cursor with the suggestions
+  // of the spellcheck service (e.g. to show a context menu).
+  getSpellcheckInfoAt (cursor: Cursor): SpellcheckInfo | undefined {
+    const host = cursor.host
+    const highlightElement = this.getHighlightElementAt(host, cursor.range.startContainer, ['spellcheck'])
+    const wordId = highlightElement?.getAttribute('data-word-id')
+    if (!wordId) return undefined
+
+    const markers = this.getMisspellingMarkers(wordId, host)
+    const position = highlightSupport.extractMarkerNodePosition(host, markers)
+    if (!position) return undefined
+
+    const word = markers.map((marker) => marker.textContent).join('')
+    const lang = getLang(markers[0])
+    return {
+      wordId,
+      word,
+      lang,
+      start: position.start,
+      end: position.end,
+      range: position.nativeRange,
+      suggestions: this.spellcheckService.getSuggestions(word, lang || undefined)
+    }
+  }
+
+  // Replace a misspelled word and place the cursor after the replacement.
+  //
+  // @returns {Boolean} False if the misspelling was not found.
+  replaceMisspelling (wordId: string, suggestion: string): boolean {
+    const [first, ...rest] = this.getMisspellingMarkers(wordId)
+    const host = first && closest(first, this.editable.editableSelector)
+    if (!host) return false
+
+    const position = highlightSupport.extractMarkerNodePosition(host, [first, ...rest])
+    first.textContent = suggestion
+    for (const marker of rest) marker.remove()
+    content.unwrap(first)
+    host.normalize()
+
+    if (position) {
+      this.editable.createCursorAtCharacterOffset({element: host, offset: position.start + suggestion.length})
+    }
+    this.editable.dispatcher.notify('change', host)
+    return true
+  }
+
+  // Ignore a word for the rest of the session.
+  ignoreWord (word: string): void {
+    this.spellcheckService.ignoreWord(word)
+    this.removeMisspellingHighlights(word)
+  }
+
+  // Add a word to the dictionary of the spellcheck service
+  // with the `spellcheck.addToDictionary` config.
+  addToDictionary (word: string, lang?: string): void {
+    if (this.config.spellcheck.addToDictionary) this.config.spellcheck.addToDictionary(word, lang)
+    this.ignoreWord(word)
+  }
+
+  removeMisspellingHighlights (word: string): void {
+    const markers = domArray('[data-highlight="spellcheck"]', this.win.document)
+    const groups: Record<string, Element[]> = {}
+    for (const marker of markers) {
+      const wordId = marker.getAttribute('data-word-id') || ''
+      groups[wordId] = groups[wordId] || []
+      groups[wordId].push(marker)
+    }
+
+    for (const wordId in groups) {
+      if (groups[wordId].map((marker) => marker.textContent).join('') !== word) continue
+      for (const marker of groups[wordId]) content.unwrap(marker)
+    }
+  }
+
+  getMisspellingMarkers (wordId: string, editableHost?: HTMLElement): HTMLElement[] {
+    return domArray(`[data-highlight="spellcheck"][data-word-id="${wordId}"]`, this.win.document, editableHost)
+  }
+}
+
+function getHighlightType (match: Match): string {
+  return match.marker?.getAttribute('data-highlight') || ''
 }
@@ -0,0 +1,213 @@
+import Cursor from './cursor.js'
+import Selection from './selection.js'
+import * as content from './content.js'
+import * as block from './block.js'
+import * as list from './list.js'
+import config from './config.js'
+import {createRange, getSelection} from './util/dom.js'
+import type {MarkupConfig} from './config.js'
+
+/**
+ * Represents a text selection that spans several editable hosts.
+ *
+ * The range starts in the first and ends in the last of `hosts`. The part
+ * of the range within each host can be handled like a normal `Selection`
+ * (see `getSelections()`).
+ */
+export default class MultiBlockSelection {
+  public hosts: HTMLElement[]
+  public host: HTMLElement
+  public range: Range
+  public win: Window
+  public isCursor?: boolean
+  public isSelection: boolean
+  public isMultiBlockSelection: boolean
+
+  constructor (hosts: HTMLElement[], range: Range) {
+    this.hosts = hosts
+    this.host = hosts[0]
+    this.range = range
+    this.win = this.host.ownerDocument.defaultView || window
+    this.isSelection = true
+    this.isMultiBlockSelection = true
+  }
+
+  // Get a selection for the part of the range within every host.
+  //
+  // @return {Array of Selection}
+  getSelections (): Selection[] {
+    const lastIndex = this.hosts.length - 1
+    return this.hosts.map((host, index) => {
+      const range = createRange(this.win)
+      range.selectNodeContents(host)
+      if (index === 0 && host.contains(this.range.startContainer)) {
+        range.setStart(this.range.startContainer, this.range.startOffset)
+      }
+      if (index === lastIndex && host.contains(this.range.endContainer)) {
+        range.setEnd(this.range.endContainer, this.range.endOffset)
+      }
+      return new Selection(host, range)
+    })
+  }
+
+  // Get the text inside the selection. Blocks are separated by newlines.
+  text (): string {
+    return this.getSelections().map((selection) => selection.text()).join('\n')
+  }
+
+  // Get the html inside the selection. The content of every host is
+  // wrapped in an element with the tag name of the host (e.g. '<p>a</p><p>b</p>').
+  html (): string {
+    return this.getSelections().map((selection) => {
+      const wrapper = this.win.document.createElement(selection.host.nodeName.toLowerCase())
+      wrapper.appendChild(selection.range.cloneContents())
+      return wrapper.outerHTML
+    }).join('')
+  }
+
+  toString (): string {
+    return this.text()
+  }
+
+  getBoundingClientRect (): DOMRect {
+    return this.range.getBoundingClientRect()
+  }
+
+  // Get the BoundingClientRect of the selection relative to the
+  // document (or the viewport with 'fixed'), see Cursor#getCoordinates().
+  getCoordinates (positioning = 'absolute') {
+    return new Cursor(this.host, this.range).getCoordinates(positioning)
+  }
+
+  // Get the ClientRects of this selection.
+  getRects (): DOMRectList {
+    return this.range.getClientRects()
+  }
+
+  // Delete the selected content and merge the first and the last host.
+  // The hosts in between are removed.
+  //
+  // @return Cursor instance in the first host
+  deleteContent (): Cursor {
+    const selections = this.getSelections()
+    for (const selection of selections) selection.range.deleteContents()
+
+    const first = this.host
+    const last = this.hosts[this.hosts.length - 1]
+    const range = selections[0].range
+    while (last.firstChild) first.appendChild(last.firstChild)
+
+    for (const host of this.hosts.slice(1)) {
+      const rootList = list.isListItem(host) ? list.getRootList(host) : undefined
+      host.remove()
+      if (rootList) list.removeEmptyLists(rootList)
+    }
+
+    this.hosts = [first]
+    return new Cursor(first, range)
+  }
+
+  setVisibleSelection (): void {
+    const selection = getSelection(this.win)
+    if (!selection) return
+    selection.removeAllRanges()
+    selection.addRange(this.range)
+  }
+
+  // Alias for #setVisibleSelection()
+  setSelection (): void {
+    this.setVisibleSelection()
+  }
+
+  makeBold (): void {
+    this.forceWrap(config.boldMarkup)
+  }
+
+  toggleBold (): void {
+    this.toggle(config.boldMarkup)
+  }
+
+  giveEmphasis (): void {
+    this.forceWrap(config.italicMarkup)
+  }
+
+  toggleEmphasis (): void {
+    this.toggle(config.italicMarkup)
+  }
+
+  makeUnderline (): void {
+    this.forceWrap(config.underlineMarkup)
+  }
+
+  toggleUnderline (): void {
+    this.toggle(config.underlineMarkup)
+  }
+
+  // @param {String} selector. An element selector, e.g. 'a' or 'span.some-class'
+  //                           that represents elements to be removed; if undefined,
+  //                           remove all.
+  removeFormatting (selector?: string): void {
+    this.updateParts((selection) => selection.removeFormatting(selector))
+  }
+
+  // Remove the markup if every selected part is already formatted with it,
+  // otherwise format all parts.
+  toggle (markup: MarkupConfig): void {
+    const elem = this.createElement(markup)
+    const isFormatted = this.getFormattableSelections().every((selection) => {
+      if (markup.trim) trimRange(selection)
+      const tags = content.getTagsByNameAndAttributes(selection.host, selection.range, elem)
+      return tags.length === 1 && content.isExactSelection(selection.range, tags[0], true)
+    })
+
+    this.updateParts((selection) => {
+      if (markup.trim) trimRange(selection)
+      if (isFormatted) {
+        selection.toggle(this.createElement(markup))
+      } else {
+        selection.forceWrap(this.createElement(markup))
+      }
+    })
+  }
+
+  forceWrap (markup: MarkupConfig): void {
+    this.updateParts((selection) => {
+      if (markup.trim) trimRange(selection)
+      selection.forceWrap(this.createElement(markup))
+    })
+  }
+
+  createElement ({name, attribs = {}}: MarkupConfig): HTMLElement {
+    const element = this.win.document.createElement(name)
+    for (const attributeName in attribs) {
+      element.setAttribute(attributeName, attribs[attributeName])
+    }
+    return element
+  }
+
+  // Parts in plain text hosts or without content are not formatted.
+  getFormattableSelections (): Selection[] {
+    return this.getSelections()
+      .filter((selection) => !selection.range.collapsed && !block.isPlainTextBlock(selection.host))
+  }
+
+  // Apply a change to every part and restore the range around all parts.
+  updateParts (update: (selection: Selection) => void): void {
+    const selections = this.getSelections()
+    for (const selection of selections) {
+      if (!selection.range.collapsed && !block.isPlainTextBlock(selection.host)) update(selection)
+    }
+
+    const first = selections[0].range
+    const last = selections[selections.length - 1].range
+    this.range.setStart(first.startContainer, first.startOffset)
+    this.range.setEnd(last.endContainer, last.endOffset)
+    this.setVisibleSelection()
+  }
+}
+
+// Only trim parts with whitespace. The range of a formatted part usually
+// starts and ends between elements, which trimRange() does not support.
+function trimRange (selection: Selection): void {
+  if (/^\s|\s$/.test(selection.text())) selection.trimRange()
+}
@@ -27,6 +27,28 @@ export function getHost (node: MaybeWrapped<Node>): HTMLElement | null {
   return contentEditableHost || null
 }
 
+/**
+ * Get all editableJS host blocks a range spans, in document order.
+ * The range has to start and end within a host.
+ *
+ * @method getHostsOfRange
+ * @param {Range}
+ * @return {Array of DOM Nodes}
+ */
+export function getHostsOfRange (range: Range): HTMLElement[] {
+  const startHost = getHost(range.startContainer)
+  const endHost = getHost(range.endContainer)
+  if (!startHost || !endHost) return []
+  if (startHost === endHost) return [startHost]
+
+  const ancestor = range.commonAncestorContainer as Element
+  if (!ancestor.querySelectorAll) return []
+  const hosts = Array.from(ancestor.querySelectorAll<HTMLElement>(`.${config.editableClass}`))
+    .filter((host) => range.intersectsNode(host))
+  if (hosts[0] !== startHost || hosts[hosts.length - 1] !== endHost) return []
+  return hosts
+}
+
 /**
  * Get the index of a node so that
  * parent.childNodes[ getNodeIndex(node) ] would return the node again.
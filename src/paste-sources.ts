@@ -0,0 +1,109 @@
+import config from './config.js'
+import type {MarkupConfig} from './config.js'
+
+// Office applications put formatting in inline styles instead of tags.
+// A paste source detects the application from markers in the pasted html
+// and converts its formatting into the configured markup before the
+// pastedHtmlRules filter the content.
+
+export interface PasteSource {
+  name: string
+  // @param {String} The pasted html.
+  detect: (html: string) => boolean
+  // @param {HTMLElement} A container with the pasted content.
+  process: (element: HTMLElement) => void
+}
+
+export const pasteSources: PasteSource[] = [
+  {
+    name: 'google-docs',
+    detect: (html) => /id="docs-internal-guid-/.test(html),
+    process (element) {
+      // The content is wrapped in <b style="font-weight:normal">
+      for (const wrapper of Array.from(element.querySelectorAll('b[id^="docs-internal-guid-"]'))) {
+        if (!isBold(wrapper as HTMLElement)) unwrap(wrapper)
+      }
+      applyStyleFormatting(element)
+    }
+  },
+  {
+    name: 'word',
+    detect: (html) => /urn:schemas-microsoft-com:office:word|class="?Mso|<o:p>/i.test(html),
+    process (element) {
+      // <o:p> marks empty paragraphs
+      for (const paragraphMarker of Array.from(element.getElementsByTagName('o:p'))) {
+        paragraphMarker.remove()
+      }
+      applyStyleFormatting(element)
+    }
+  },
+  {
+    name: 'libreoffice',
+    detect: (html) => /<meta\s+name="?generator"?\s+content="?LibreOffice/i.test(html),
+    process (element) {
+      applyStyleFormatting(element)
+    }
+  }
+]
+
+// Detect the application the html was copied from.
+//
+// @returns {Object} The paste source or undefined for other html.
+export function detectPasteSource (html: string): PasteSource | undefined {
+  return pasteSources.find((source) => source.detect(html))
+}
+
+// Convert the formatting of the detected application.
+//
+// @param {HTMLElement} A container with the pasted content.
+// @param {String} The pasted html.
+// @returns {String} The name of the paste source or undefined.
+export function processPasteSource (element: HTMLElement, html: string): string | undefined {
+  const source = detectPasteSource(html)
+  if (!source) return undefined
+  source.process(element)
+  return source.name
+}
+
+// Wrap the content of elements with a bold, italic or underline style
+// in the configured markup. Tags with a style that removes their
+// formatting (e.g. <b style="font-weight:normal">) are unwrapped.
+export function applyStyleFormatting (element: HTMLElement): void {
+  for (const elem of Array.from(element.querySelectorAll('[style]')) as HTMLElement[]) {
+    const tagName = elem.nodeName.toLowerCase()
+    const {fontWeight, fontStyle} = elem.style
+    const decoration = `${elem.style.textDecoration} ${elem.style.getPropertyValue('text-decoration-line')}`
+
+    if ((tagName === 'b' || tagName === 'strong') && fontWeight && !isBold(elem)) {
+      unwrap(elem)
+      continue
+    }
+    if ((tagName === 'i' || tagName === 'em') && fontStyle === 'normal') {
+      unwrap(elem)
+      continue
+    }
+
+    if (isBold(elem)) wrapContent(elem, config.boldMarkup)
+    if (fontStyle === 'italic' || fontStyle === 'oblique') wrapContent(elem, config.italicMarkup)
+    if (/\bunderline\b/.test(decoration)) wrapContent(elem, config.underlineMarkup)
+  }
+}
+
+function isBold (elem: HTMLElement): boolean {
+  const fontWeight = elem.style.fontWeight
+  return fontWeight === 'bold' || fontWeight === 'bolder' || Number(fontWeight) >= 600
+}
+
+function wrapContent (elem: HTMLElement, {name, attribs}: MarkupConfig): void {
+  if (elem.nodeName.toLowerCase() === name) return
+  const wrapper = elem.ownerDocument.createElement(name)
+  for (const attributeName in attribs) {
+    wrapper.setAttribute(attributeName, attribs[attributeName])
+  }
+  while (elem.firstChild) wrapper.appendChild(elem.firstChild)
+  elem.appendChild(wrapper)
+}
+
+function unwrap (elem: Element): void {
+  elem.replaceWith(...Array.from(elem.childNodes))
+}
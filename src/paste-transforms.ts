@@ -0,0 +1,120 @@
+import config from './config.js'
+import error from './util/error.js'
+import type {PastedHtmlRules} from './config.js'
+import type {ParsedBlock} from './clipboard.js'
+
+export interface PasteContext {
+  // The block the content is pasted into.
+  block: HTMLElement
+  // The name of the paste profile of the block.
+  profile: string
+  plainText: boolean
+  lang: string
+}
+
+// Changes the pasted content before it is split into blocks.
+export type PasteDomTransform = (element: HTMLElement, context: PasteContext) => void
+
+// Changes the parsed blocks. Returns new blocks or changes the passed ones.
+export type PasteBlocksTransform = (blocks: ParsedBlock[], context: PasteContext) => ParsedBlock[] | void
+
+export interface PasteTransform {
+  dom?: PasteDomTransform
+  blocks?: PasteBlocksTransform
+}
+
+export interface PasteTransformOptions {
+  // The paste profile to add the transform to (defaults to 'default').
+  profile?: string
+}
+
+interface PasteProfile {
+  // Overrides of the global pastedHtmlRules.
+  rules: Partial<PastedHtmlRules>
+  transforms: PasteTransform[]
+}
+
+/**
+ * The paste pipeline of an Editable instance.
+ *
+ * Pasted content passes through the transforms of a paste profile in the
+ * order they were added: first all DOM transforms, then the content is
+ * split into blocks with the pastedHtmlRules of the profile, then all
+ * blocks transforms.
+ *
+ * A block selects its profile with the `data-paste-profile` attribute
+ * (see `config.pasteProfileAttribute`). Blocks without the attribute use
+ * the 'default' profile with the global pastedHtmlRules.
+ */
+export default class PasteTransforms {
+  public profiles: Map<string, PasteProfile>
+
+  constructor () {
+    this.profiles = new Map([['default', {rules: {}, transforms: []}]])
+  }
+
+  // Add a profile or replace the rules of an existing one.
+  //
+  // @param {String} The name used in the data-paste-profile attribute.
+  // @param {Object} The pastedHtmlRules of the profile. Rules which are not
+  //   set are taken from the global config.
+  addProfile (name: string, rules: Partial<PastedHtmlRules> = {}): this {
+    const profile = this.profiles.get(name)
+    if (profile) {
+      profile.rules = rules
+    } else {
+      this.profiles.set(name, {rules, transforms: []})
+    }
+    return this
+  }
+
+  // Add a transform to the end of the pipeline of a profile.
+  // A function is added as a DOM transform.
+  //
+  // @returns {Function} Removes the transform again.
+  use (transform: PasteTransform | PasteDomTransform, {profile: name = 'default'}: PasteTransformOptions = {}): () => void {
+    const profile = this.profiles.get(name)
+    if (!profile) {
+      error(`PasteTransforms: unknown paste profile "${name}"`)
+      return () => {}
+    }
+
+    const added = typeof transform === 'function' ? {dom: transform} : transform
+    profile.transforms.push(added)
+    return () => {
+      profile.transforms = profile.transforms.filter((entry) => entry !== added)
+    }
+  }
+
+  // Get the profile name of a block. Unknown profiles fall back to 'default'.
+  getProfileName (block: HTMLElement): string {
+    const name = block.getAttribute(config.pasteProfileAttribute)
+    if (!name) return 'default'
+    if (!this.profiles.has(name)) {
+      error(`PasteTransforms: unknown paste profile "${name}"`)
+      return 'default'
+    }
+    return name
+  }
+
+  // Get the pastedHtmlRules of a profile merged with the global config.
+  getRules (name: string): PastedHtmlRules {
+    return {...config.pastedHtmlRules, ...this.profiles.get(name)?.rules}
+  }
+
+  transformDom (element: HTMLElement, context: PasteContext): void {
+    for (const {dom} of this.getTransforms(context.profile)) {
+      if (dom) dom(element, context)
+    }
+  }
+
+  transformBlocks (blocks: ParsedBlock[], context: PasteContext): ParsedBlock[] {
+    return this.getTransforms(context.profile).reduce((current, {blocks: transform}) => {
+      return transform ? transform(current, context) || current : current
+    }, blocks)
+  }
+
+  getTransforms (name: string): PasteTransform[] {
+    return this.profiles.get(name)?.transforms || []
+  }
+}
@@ -5,10 +5,18 @@ export interface PendingEditableTimeout {
   editableHost?: HTMLElement
 }
 
-export type SpellcheckResult = string[] | null | undefined
-export type SpellcheckServiceCallback = (misspelledWords?: SpellcheckResult) => void
-export type SpellcheckServiceHandler = (text: string, callback: SpellcheckServiceCallback) => void
-export type SpellcheckCheckCallback = (error: null, misspelledWords?: string[] | null) => void
+// A misspelled word with suggestions for the correction.
+export interface SpellcheckMisspelling {
+  word: string
+  suggestions?: string[]
+}
+
+export type SpellcheckResult = Array<string | SpellcheckMisspelling> | null | undefined
+// A service that cannot check the text passes an error instead.
+export type SpellcheckServiceCallback = (misspelledWords?: SpellcheckResult, error?: Error) => void
+// `lang` is the language of the text (from the nearest lang attribute).
+export type SpellcheckServiceHandler = (text: string, callback: SpellcheckServiceCallback, lang?: string) => void
+export type SpellcheckCheckCallback = (error: Error | null, misspelledWords?: string[] | null) => void
 
 export interface HighlightMarkerConfig {
   marker?: string
@@ -17,6 +25,11 @@ export interface HighlightMarkerConfig {
 export interface MonitoredSpellcheckConfig extends HighlightMarkerConfig {
   throttle?: number
   spellcheckService?: SpellcheckServiceHandler
+  // Called by MonitoredHighlighting#addToDictionary()
+  addToDictionary?: (word: string, lang?: string) => void
+  // Called by MonitoredHighlighting#getSpellcheckInfoAt() for words
+  // the spellcheckService returned no suggestions for
+  suggest?: (word: string, lang?: string) => string[]
 }
 
 export interface MonitoredWhitespaceConfig extends HighlightMarkerConfig {}
@@ -35,6 +48,8 @@ export interface ResolvedMonitoredSpellcheckConfig {
   marker: string
   throttle: number
   spellcheckService: SpellcheckServiceHandler
+  addToDictionary?: (word: string, lang?: string) => void
+  suggest?: (word: string, lang?: string) => string[]
 }
 
 export interface ResolvedMonitoredWhitespaceConfig {
@@ -55,6 +70,34 @@ export interface SpellcheckSetupConfig {
   markerNode?: HTMLElement
   throttle?: number
   spellcheckService: SpellcheckServiceHandler
+  addToDictionary?: (word: string, lang?: string) => void
+  suggest?: (word: string, lang?: string) => string[]
+}
+
+// A spellcheck or whitespace highlight in a block.
+export interface HighlightMarkerInfo {
+  wordId: string
+  type: string
+  text: string
+  start: number
+  end: number
+}
+
+// The highlights that changed with a spellcheck run.
+export interface SpellcheckUpdate {
+  added: HighlightMarkerInfo[]
+  removed: HighlightMarkerInfo[]
+}
+
+export interface SpellcheckInfo {
+  wordId: string
+  word: string
+  lang: string
+  // Character offsets of the word in the block
+  start: number
+  end: number
+  range: Range
+  suggestions: string[]
 }
 
 export interface HighlightOptions {
@@ -82,4 +125,61 @@ export interface TextDiffOptions {
   markerDeleted?: string
   markerInserted?: string
   throttle?: number
+  // Recorded as the author of new changes.
+  author?: string
+  // Compare single characters, words or sentences.
+  granularity?: 'char' | 'word' | 'sentence'
+}
+
+export interface AnnotationOptions {
+  // Highlight type of the marker spans (data-highlight attribute).
+  type?: string
+  // Markup of the marker spans.
+  marker?: string
+}
+
+export interface TypographyOptions {
+  // Languages with narrow no-break spaces before ; : ! ? and inside
+  // guillemets. 'fr' also applies to regional variants like 'fr-CH'.
+  languages?: string[]
+  // Insert the spaces while typing.
+  typing?: boolean
+  // Insert the spaces into pasted content.
+  paste?: boolean
+  // The paste profiles whose pasted content gets the spaces
+  // (see PasteTransforms). The profiles must exist at setup.
+  profiles?: string[]
+}
+
+export interface AnnotationComment {
+  id: string
+  author: string
+  text: string
+  timestamp: number
+}
+
+export interface Annotation {
+  id: string
+  // Character range in the block
+  start: number
+  end: number
+  text: string
+  // True once the annotated text was deleted.
+  orphaned: boolean
+  // The comment thread, in the order the comments were added.
+  comments: AnnotationComment[]
+}
+
+export interface TextDiffChange {
+  id: string
+  type: 'insert' | 'delete'
+  value: string
+  // Position in the original text
+  oldStart: number
+  oldEnd: number
+  // Position in the current text
+  newStart: number
+  newEnd: number
+  author: string
+  timestamp: number
 }
@@ -0,0 +1,200 @@
+import highlightText from '../../highlight-text.js'
+import highlightSupport from '../../highlight-support.js'
+import error from '../../util/error.js'
+import type {Editable} from '../../core.js'
+import type {Annotation, AnnotationComment, AnnotationOptions} from '../../plugin-types.js'
+
+/**
+ * Annotations store comment threads anchored to character ranges of a block.
+ *
+ * The anchors are shown as highlight markers. After every change the
+ * positions are read back from the markers, so an anchor moves with the
+ * text it is attached to. When the annotated text is deleted the
+ * annotation is kept but marked as orphaned.
+ *
+ * The markers are recorded in the undo history. Markers missing from
+ * an older undo state are rendered again if their text is unchanged.
+ *
+ * Overlapping annotations are supported: the marker of an annotation is
+ * split into several spans wherever it crosses the marker of another one.
+ */
+export default class Annotations {
+  public editable: Editable
+  public win: Window
+  public config: Required<AnnotationOptions>
+  public annotations: Map<HTMLElement, Map<string, Annotation>>
+  private idCounter: number = 0
+
+  constructor(editable: Editable, configuration: Partial<AnnotationOptions>) {
+    this.editable = editable
+    this.win = editable.win
+    this.annotations = new Map()
+
+    const defaultConfig: Required<AnnotationOptions> = {
+      type: 'comment',
+      marker: '<span class="highlight-comment"></span>'
+    }
+
+    this.config = Object.assign({}, defaultConfig, configuration)
+    this.editable.on('change', (editableHost: HTMLElement) => this.update(editableHost))
+  }
+
+  // Anchor a new annotation to a character range of a block.
+  //
+  // @returns {Object} The annotation or undefined for an invalid range.
+  add(editableHost: HTMLElement, {id, start, end, comments = []}: {
+    id?: string
+    start: number
+    end: number
+    comments?: AnnotationComment[]
+  }): Annotation | undefined {
+    const text = highlightText.extractText(editableHost, false)
+    if (!(start >= 0 && start < end && end <= text.length)) {
+      error(`Error in Annotations.add: The range ${start}-${end} does not select any text of the block.`)
+      return undefined
+    }
+
+    const annotation: Annotation = {
+      id: id || `annotation-${++this.idCounter}`,
+      start,
+      end,
+      text: text.substring(start, end),
+      orphaned: false,
+      comments: comments.map((comment) => ({...comment}))
+    }
+
+    this.remove(editableHost, annotation.id)
+    this.createBlockAnnotations(editableHost).set(annotation.id, annotation)
+    this.renderMarker(editableHost, annotation)
+    this.editable.history.snapshot(editableHost)
+    return annotation
+  }
+
+  get(editableHost: HTMLElement, id: string): Annotation | undefined {
+    return this.getBlockAnnotations(editableHost)?.get(id)
+  }
+
+  // Get all annotations of a block ordered by their position.
+  getAll(editableHost: HTMLElement): Annotation[] {
+    const annotations = this.getBlockAnnotations(editableHost)
+    if (!annotations) return []
+    return [...annotations.values()].sort((a, b) => a.start - b.start || a.end - b.end)
+  }
+
+  remove(editableHost: HTMLElement, id: string): boolean {
+    const annotations = this.getBlockAnnotations(editableHost)
+    if (!annotations?.has(id)) return false
+
+    annotations.delete(id)
+    if (!annotations.size) this.annotations.delete(editableHost)
+    highlightSupport.removeHighlight(editableHost, id)
+    this.editable.history.snapshot(editableHost)
+    return true
+  }
+
+  // Add a comment to the thread of an annotation.
+  addComment(editableHost: HTMLElement, id: string, {author = '', text}: {author?: string, text: string}): AnnotationComment | undefined {
+    const annotation = this.get(editableHost, id)
+    if (!annotation) return undefined
+
+    const comment: AnnotationComment = {
+      id: `${id}-comment-${annotation.comments.length + 1}`,
+      author,
+      text,
+      timestamp: Date.now()
+    }
+    annotation.comments.push(comment)
+    return comment
+  }
+
+  // Read the anchor positions back from the markers after the content
+  // of a block changed.
+  update(editableHost: HTMLElement): void {
+    const annotations = this.getBlockAnnotations(editableHost)
+    if (!annotations) return
+
+    const positions = highlightSupport.extractHighlightedRanges(editableHost, this.config.type) || {}
+    for (const annotation of annotations.values()) {
+      if (annotation.orphaned) continue
+
+      const position = positions[annotation.id]
+      if (!position && this.editable.history.isApplying && this.hasUnchangedText(editableHost, annotation)) {
+        this.renderMarker(editableHost, annotation)
+        continue
+      }
+
+      if (!position || position.start === position.end) {
+        annotation.orphaned = true
+        highlightSupport.removeHighlight(editableHost, annotation.id)
+        this.editable.dispatcher.notify('annotationOrphaned', editableHost, annotation)
+        continue
+      }
+
+      const text = position.nativeRange.toString()
+      if (position.start === annotation.start && position.end === annotation.end && text === annotation.text) continue
+
+      annotation.start = position.start
+      annotation.end = position.end
+      annotation.text = text
+      this.editable.dispatcher.notify('annotationMoved', editableHost, annotation)
+    }
+  }
+
+  // Export the annotations of a block as JSON.
+  serialize(editableHost: HTMLElement): string {
+    return JSON.stringify(this.getAll(editableHost))
+  }
+
+  // Replace the annotations of a block with annotations
+  // exported by serialize().
+  deserialize(editableHost: HTMLElement, json: string): Annotation[] {
+    for (const annotation of this.getAll(editableHost)) {
+      this.remove(editableHost, annotation.id)
+    }
+
+    const annotations = JSON.parse(json) as Annotation[]
+    for (const annotation of annotations) {
+      if (annotation.orphaned) {
+        this.createBlockAnnotations(editableHost).set(annotation.id, {...annotation})
+      } else {
+        this.add(editableHost, annotation)
+      }
+    }
+    return this.getAll(editableHost)
+  }
+
+  getBlockAnnotations(editableHost: HTMLElement): Map<string, Annotation> | undefined {
+    return this.annotations.get(editableHost)
+  }
+
+  createBlockAnnotations(editableHost: HTMLElement): Map<string, Annotation> {
+    let annotations = this.annotations.get(editableHost)
+    if (!annotations) {
+      annotations = new Map()
+      this.annotations.set(editableHost, annotations)
+    }
+    return annotations
+  }
+
+  // Check whether the text of an annotation is still at its last position.
+  hasUnchangedText(editableHost: HTMLElement, annotation: Annotation): boolean {
+    const text = highlightText.extractText(editableHost, false)
+    return text.substring(annotation.start, annotation.end) === annotation.text
+  }
+
+  // The marker is wrapped around every text node portion of the range, so
+  // it is split into multiple spans where it overlaps other markers.
+  renderMarker(editableHost: HTMLElement, annotation: Annotation): void {
+    const marker = highlightSupport.createMarkerNode(this.config.marker, this.config.type, this.win)
+    if (!marker) return
+    marker.setAttribute('data-history', 'keep')
+
+    highlightText.highlightMatches(editableHost, [{
+      startIndex: annotation.start,
+      endIndex: annotation.end,
+      match: annotation.text,
+      id: annotation.id,
+      marker
+    }], false)
+  }
+}
@@ -0,0 +1,209 @@
+import * as content from '../../content.js'
+import highlightText from '../../highlight-text.js'
+import highlightSupport from '../../highlight-support.js'
+import Selection from '../../selection.js'
+import error from '../../util/error.js'
+import {createRange, domArray} from '../../util/dom.js'
+import {expandReplacement, searchPattern, type SearchOptions} from './text-search.js'
+import type {Editable} from '../../core.js'
+
+export interface FindMatch {
+  id: string
+  host: HTMLElement
+  // Character offsets in the text of the host
+  startIndex: number
+  endIndex: number
+  match: string
+  // The result of the regular expression for the replacement patterns
+  result: RegExpMatchArray
+}
+
+const highlightType = 'search'
+const currentMatchClass = 'highlight-search-current'
+
+/**
+ * A search over all editable blocks.
+ *
+ * All matches are highlighted with the 'search' highlight type. next() and
+ * previous() select a match and scroll it into view. Replacing text keeps
+ * the inline markup around the match and triggers a change event for every
+ * affected block.
+ */
+export default class FindReplace {
+  public editable: Editable
+  public win: Window
+  public query: string
+  public options: SearchOptions
+  public matches: FindMatch[] = []
+  public index: number = -1
+  private marker: HTMLElement | null
+
+  constructor(editable: Editable, query: string, options: SearchOptions = {}) {
+    this.editable = editable
+    this.win = editable.win
+    this.query = query
+    this.options = options
+    this.marker = highlightSupport.createMarkerNode('<span class="highlight-search"></span>', highlightType, this.win)
+    this.search()
+  }
+
+  get current(): FindMatch | undefined {
+    return this.matches[this.index]
+  }
+
+  // Search all editable blocks and highlight the matches.
+  search(): FindMatch[] {
+    this.clear()
+    if (!this.marker) return this.matches
+
+    let idCounter = 0
+    for (const host of this.getHosts()) {
+      let matches
+      try {
+        matches = searchPattern(highlightText.extractText(host), this.query, this.options, this.marker)
+      } catch (err) {
+        error(`Error in Editable.find: "${this.query}" is not a valid regular expression.`)
+        return this.matches
+      }
+      if (!matches.length) continue
+
+      const hostMatches = matches.map((match) => ({...match, id: `search-${++idCounter}`}))
+      highlightText.highlightMatches(host, hostMatches)
+      for (const {id, startIndex, endIndex, match, result} of hostMatches) {
+        this.matches.push({id, host, startIndex, endIndex, match, result})
+      }
+    }
+    return this.matches
+  }
+
+  // Select the next match (starts over after the last one).
+  next(): FindMatch | undefined {
+    if (!this.matches.length) return undefined
+    return this.select((this.index + 1) % this.matches.length)
+  }
+
+  // Select the previous match (continues with the last match
+  // before the first one).
+  previous(): FindMatch | undefined {
+    if (!this.matches.length) return undefined
+    const index = this.index <= 0 ? this.matches.length : this.index
+    return this.select(index - 1)
+  }
+
+  select(index: number): FindMatch | undefined {
+    const previousMatch = this.current
+    if (previousMatch) {
+      highlightSupport.updateHighlight(previousMatch.host, previousMatch.id, undefined, currentMatchClass)
+    }
+
+    const match = this.matches[index]
+    if (!match) return undefined
+    this.index = index
+
+    const markers = this.getMarkers(match)
+    if (!markers.length) return match
+
+    highlightSupport.updateHighlight(match.host, match.id, currentMatchClass)
+    const range = createRange(this.win)
+    range.setStartBefore(markers[0])
+    range.setEndAfter(markers[markers.length - 1])
+    new Selection(match.host, range).setVisibleSelection()
+    markers[0].scrollIntoView?.({block: 'nearest'})
+    return match
+  }
+
+  // Replace the current match (or the first match if none is selected)
+  // and select the next match.
+  //
+  // @returns {Boolean} True if a match was replaced.
+  replace(replacement: string): boolean {
+    const match = this.current || this.matches[0]
+    if (!match) return false
+
+    const hostIndex = this.getHosts().indexOf(match.host)
+    const replacedEnd = match.startIndex + this.getReplacement(match, replacement).length
+    this.editable.history.transact([match.host], () => this.replaceMatch(match, replacement))
+    this.editable.dispatcher.notify('change', match.host)
+
+    this.search()
+    const hosts = this.getHosts()
+    const nextIndex = this.matches.findIndex(({host, startIndex}) => {
+      const index = hosts.indexOf(host)
+      return index > hostIndex || (index === hostIndex && startIndex >= replacedEnd)
+    })
+    if (nextIndex !== -1) this.select(nextIndex)
+    return true
+  }
+
+  // Replace all matches. All replacements are undone in one step.
+  //
+  // @returns {Number} The number of replaced matches.
+  replaceAll(replacement: string): number {
+    const matches = this.matches
+    const hosts = [...new Set(matches.map(({host}) => host))]
+    this.editable.history.transact(hosts, () => {
+      for (const match of matches) this.replaceMatch(match, replacement)
+    })
+
+    this.matches = []
+    this.index = -1
+    for (const host of hosts) {
+      this.editable.dispatcher.notify('change', host)
+    }
+    return matches.length
+  }
+
+  // Remove all search highlights.
+  clear(): void {
+    for (const host of this.getHosts()) {
+      const markers = host.querySelectorAll(`[data-highlight="${highlightType}"]`)
+      if (!markers.length) continue
+      for (const marker of Array.from(markers)) content.unwrap(marker)
+      host.normalize()
+    }
+    this.matches = []
+    this.index = -1
+  }
+
+  getHosts(): HTMLElement[] {
+    return domArray(this.editable.editableSelector, this.win.document)
+  }
+
+  getMarkers(match: FindMatch): HTMLElement[] {
+    return domArray(`[data-word-id="${match.id}"]`, this.win.document, match.host)
+  }
+
+  // Regular expressions can reference capture groups in the
+  // replacement (e.g. '$1').
+  getReplacement(match: FindMatch, replacement: string): string {
+    if (!this.options.regex) return replacement
+    return expandReplacement(replacement, match.result)
+  }
+
+  // The replacement is put into the first marker of the match, so it
+  // gets the markup of the beginning of the match.
+  replaceMatch(match: FindMatch, replacement: string): void {
+    const [first, ...rest] = this.getMarkers(match)
+    if (!first) return
+
+    first.textContent = this.getReplacement(match, replacement)
+    for (const marker of rest) removeWithEmptyParents(marker, match.host)
+    if (first.textContent) {
+      content.unwrap(first)
+    } else {
+      removeWithEmptyParents(first, match.host)
+    }
+    match.host.normalize()
+  }
+}
+
+// Remove an element and inline elements that are left empty.
+function removeWithEmptyParents(elem: Element, host: HTMLElement): void {
+  let parent = elem.parentElement
+  elem.remove()
+  while (parent && parent !== host && !parent.children.length && !parent.textContent) {
+    const next = parent.parentElement
+    parent.remove()
+    parent = next
+  }
+}
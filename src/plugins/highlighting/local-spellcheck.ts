@@ -0,0 +1,395 @@
+import type {SpellcheckMisspelling, SpellcheckServiceCallback, SpellcheckServiceHandler} from '../../plugin-types.js'
+
+/**
+ * Local spellcheck with Hunspell dictionaries.
+ *
+ * Checks words against a Hunspell `.dic` file with the prefix and suffix
+ * rules of its `.aff` file (or against a plain word list), so no
+ * spellcheck server is needed.
+ *
+ * Supported `.aff` directives: SET, FLAG (char, long, num, UTF-8), TRY,
+ * REP, PFX, SFX, KEEPCASE, NEEDAFFIX and FORBIDDENWORD. Compounding and
+ * morphological fields are not supported.
+ *
+ * This module does not access the DOM and can be used in a Web Worker
+ * (see createWorkerSpellcheckService() and handleSpellcheckRequests()).
+ */
+
+interface AffixRule {
+  flag: string
+  // Allows to combine the rule with an affix of the other kind.
+  cross: boolean
+  strip: string
+  add: string
+  condition: RegExp
+}
+
+type FlagType = 'char' | 'long' | 'num'
+
+// Words with apostrophes (e.g. "don't") are checked as a whole.
+const wordRegex = /[\p{L}\p{M}]+(?:['’][\p{L}\p{M}]+)*/gu
+
+export class SpellcheckDictionary {
+  private words: Map<string, Set<string>[]>
+  private prefixes: AffixRule[]
+  private suffixes: AffixRule[]
+  private replacements: Array<[string, string]>
+  private tryChars: string
+  private flagType: FlagType
+  private keepCaseFlag?: string
+  private needAffixFlag?: string
+  private forbiddenFlag?: string
+
+  constructor () {
+    this.words = new Map()
+    this.prefixes = []
+    this.suffixes = []
+    this.replacements = []
+    this.tryChars = ''
+    this.flagType = 'char'
+  }
+
+  // Create a dictionary from the contents of a Hunspell `.aff` and `.dic` file.
+  static fromHunspell (aff: string, dic: string): SpellcheckDictionary {
+    const dictionary = new SpellcheckDictionary()
+    dictionary.parseAff(aff)
+    dictionary.parseDic(dic)
+    return dictionary
+  }
+
+  // Create a dictionary from a list of words (an array or one word per line).
+  static fromWordList (words: string | string[]): SpellcheckDictionary {
+    const dictionary = new SpellcheckDictionary()
+    const list = typeof words === 'string' ? words.split(/\r?\n/) : words
+    for (const word of list) dictionary.addWord(word.trim())
+    return dictionary
+  }
+
+  addWord (word: string, flags: Set<string> = new Set()): void {
+    if (!word) return
+    const homonyms = this.words.get(word)
+    if (homonyms) {
+      homonyms.push(flags)
+    } else {
+      this.words.set(word, [flags])
+    }
+  }
+
+  // @returns {Boolean} True if the word is spelled correctly.
+  check (word: string): boolean {
+    if (this.checkExact(word)) return true
+    return this.getCaseVariants(word).some((variant) => this.checkExact(variant, true))
+  }
+
+  // Get corrections for a misspelled word, the most likely first.
+  suggest (word: string, limit: number = 5): string[] {
+    const suggestions = new Set<string>()
+    const add = (candidate: string) => {
+      if (candidate && candidate !== word && this.check(candidate)) {
+        suggestions.add(applyCase(candidate, word))
+      }
+    }
+
+    for (const [from, to] of this.replacements) {
+      let index = word.indexOf(from)
+      while (index !== -1) {
+        add(word.slice(0, index) + to + word.slice(index + from.length))
+        index = word.indexOf(from, index + 1)
+      }
+    }
+
+    const chars = this.getTryChars(word)
+    for (let i = 0; i <= word.length; i++) {
+      const before = word.slice(0, i)
+      const after = word.slice(i)
+      if (after) add(before + after.slice(1))
+      if (after.length > 1) add(before + after[1] + after[0] + after.slice(2))
+      for (const char of chars) {
+        if (after) add(before + char + after.slice(1))
+        add(before + char + after)
+      }
+    }
+
+    for (let i = 1; i < word.length; i++) {
+      const first = word.slice(0, i)
+      const second = word.slice(i)
+      if (this.check(first) && this.check(second)) suggestions.add(`${first} ${second}`)
+    }
+
+    return [...suggestions].slice(0, limit)
+  }
+
+  // Find the misspelled words of a text.
+  //
+  // @returns {Array} Each misspelled word once, with suggestions if
+  //   `suggestions` is set (finding suggestions is slow for long texts).
+  checkText (text: string, {suggestions = false}: {suggestions?: boolean} = {}): SpellcheckMisspelling[] {
+    const misspellings = new Map<string, SpellcheckMisspelling>()
+    for (const [word] of text.matchAll(wordRegex)) {
+      if (misspellings.has(word) || this.check(word)) continue
+      misspellings.set(word, suggestions ? {word, suggestions: this.suggest(word)} : {word})
+    }
+    return [...misspellings.values()]
+  }
+
+  // Parsing
+  // -------
+
+  parseAff (aff: string): void {
+    const lines = aff.split(/\r?\n/)
+    for (let i = 0; i < lines.length; i++) {
+      const [directive, ...args] = lines[i].replace(/(^|\s)#.*$/, '').trim().split(/\s+/)
+      switch (directive) {
+        case 'FLAG':
+          if (args[0] === 'long' || args[0] === 'num') this.flagType = args[0]
+          break
+        case 'TRY':
+          this.tryChars = args[0] || ''
+          break
+        case 'KEEPCASE':
+          this.keepCaseFlag = args[0]
+          break
+        case 'NEEDAFFIX':
+          this.needAffixFlag = args[0]
+          break
+        case 'FORBIDDENWORD':
+          this.forbiddenFlag = args[0]
+          break
+        case 'REP': {
+          const count = parseInt(args[0], 10)
+          for (let n = 0; n < count && i + 1 < lines.length; n++) {
+            const [, from, to] = lines[++i].trim().split(/\s+/)
+            if (from && to) this.replacements.push([from.replace(/_/g, ' '), to.replace(/_/g, ' ')])
+          }
+          break
+        }
+        case 'PFX':
+        case 'SFX': {
+          const [flag, cross, countArg] = args
+          const count = parseInt(countArg, 10)
+          const rules = directive === 'PFX' ? this.prefixes : this.suffixes
+          for (let n = 0; n < count && i + 1 < lines.length; n++) {
+            const [, , strip, add, condition = '.'] = lines[++i].trim().split(/\s+/)
+            rules.push({
+              flag,
+              cross: cross === 'Y',
+              strip: strip === '0' ? '' : strip,
+              // Continuation flags (after the slash) are not supported.
+              add: add === '0' ? '' : add.split('/')[0],
+              condition: directive === 'PFX'
+                ? new RegExp(`^${condition}`, 'u')
+                : new RegExp(`${condition}$`, 'u')
+            })
+          }
+          break
+        }
+      }
+    }
+  }
+
+  parseDic (dic: string): void {
+    const lines = dic.split(/\r?\n/)
+    // The first line contains the number of words.
+    const start = /^\d+\s*$/.test(lines[0]) ? 1 : 0
+    for (const line of lines.slice(start)) {
+      // Morphological fields are separated by whitespace.
+      const entry = line.trim().split(/\s/)[0]
+      if (!entry) continue
+      const slash = entry.indexOf('/')
+      if (slash === -1) {
+        this.addWord(entry)
+      } else {
+        this.addWord(entry.slice(0, slash), new Set(this.parseFlags(entry.slice(slash + 1))))
+      }
+    }
+  }
+
+  parseFlags (flags: string): string[] {
+    if (this.flagType === 'long') return flags.match(/[^]{1,2}/gu) || []
+    if (this.flagType === 'num') return flags.split(',')
+    return Array.from(flags)
+  }
+
+  // Checking
+  // --------
+
+  private checkExact (word: string, caseChanged: boolean = false): boolean {
+    const isValid = (flags: Set<string>) => !this.hasFlag(flags, this.forbiddenFlag) &&
+      !(caseChanged && this.hasFlag(flags, this.keepCaseFlag))
+
+    const homonyms = this.words.get(word)
+    if (homonyms?.some((flags) => isValid(flags) && !this.hasFlag(flags, this.needAffixFlag))) return true
+
+    const hasRoot = (root: string, ...requiredFlags: string[]) => !!this.words.get(root)
+      ?.some((flags) => isValid(flags) && requiredFlags.every((flag) => flags.has(flag)))
+
+    for (const suffix of this.suffixes) {
+      const stem = removeSuffix(word, suffix)
+      if (stem === undefined) continue
+      if (hasRoot(stem, suffix.flag)) return true
+      if (!suffix.cross) continue
+
+      for (const prefix of this.prefixes) {
+        if (!prefix.cross) continue
+        const root = removePrefix(stem, prefix)
+        if (root !== undefined && hasRoot(root, suffix.flag, prefix.flag)) return true
+      }
+    }
+
+    for (const prefix of this.prefixes) {
+      const root = removePrefix(word, prefix)
+      if (root !== undefined && hasRoot(root, prefix.flag)) return true
+    }
+
+    return false
+  }
+
+  private hasFlag (flags: Set<string>, flag?: string): boolean {
+    return flag !== undefined && flags.has(flag)
+  }
+
+  // Words at the beginning of a sentence or in all caps are
+  // checked in lower case (and capitalized for names).
+  private getCaseVariants (word: string): string[] {
+    const lower = word.toLowerCase()
+    if (word === lower) return []
+    const capitalized = lower.charAt(0).toUpperCase() + lower.slice(1)
+    if (word === word.toUpperCase()) return [lower, capitalized]
+    if (word === capitalized) return [lower]
+    return []
+  }
+
+  private getTryChars (word: string): string[] {
+    if (this.tryChars) return Array.from(this.tryChars)
+    return [...new Set(Array.from(word.toLowerCase() + 'abcdefghijklmnopqrstuvwxyz'))]
+  }
+}
+
+function removeSuffix (word: string, {add, strip, condition}: AffixRule): string | undefined {
+  if (!word.endsWith(add) || word.length <= add.length) return undefined
+  const stem = word.slice(0, word.length - add.length) + strip
+  return condition.test(stem) ? stem : undefined
+}
+
+function removePrefix (word: string, {add, strip, condition}: AffixRule): string | undefined {
+  if (!word.startsWith(add) || word.length <= add.length) return undefined
+  const root = strip + word.slice(add.length)
+  return condition.test(root) ? root : undefined
+}
+
+// Use the capitalization of the misspelled word for a suggestion.
+function applyCase (suggestion: string, word: string): string {
+  if (word.length > 1 && word === word.toUpperCase()) return suggestion.toUpperCase()
+  if (word.charAt(0) !== word.charAt(0).toLowerCase()) {
+    return suggestion.charAt(0).toUpperCase() + suggestion.slice(1)
+  }
+  return suggestion
+}
+
+// Spellcheck Services
+// -------------------
+
+// Dictionaries by language code (e.g. {en: english, 'de-CH': swissGerman}).
+export type SpellcheckDictionaries = SpellcheckDictionary | Record<string, SpellcheckDictionary>
+
+// Find the dictionary for a language. 'de-CH' falls back to 'de'.
+// Text without a language is checked with the first dictionary, text in
+// a language without a dictionary is not checked.
+export function getDictionary (dictionaries: SpellcheckDictionaries, lang?: string): SpellcheckDictionary | undefined {
+  if (dictionaries instanceof SpellcheckDictionary) return dictionaries
+  const languages = Object.keys(dictionaries)
+  if (!lang) return languages.length ? dictionaries[languages[0]] : undefined
+
+  const code = lang.toLowerCase()
+  const primary = code.split('-')[0]
+  const match = languages.find((language) => language.toLowerCase() === code) ||
+    languages.find((language) => language.toLowerCase() === primary)
+  return match ? dictionaries[match] : undefined
+}
+
+function checkText (dictionaries: SpellcheckDictionaries, text: string, lang: string | undefined, suggestions: boolean): SpellcheckMisspelling[] {
+  const dictionary = getDictionary(dictionaries, lang)
+  return dictionary ? dictionary.checkText(text, {suggestions}) : []
+}
+
+// Create a spellcheck service for `setupSpellcheck()` that checks
+// the text with a local dictionary.
+export function createLocalSpellcheckService (dictionaries: SpellcheckDictionaries, {suggestions = false}: {suggestions?: boolean} = {}): SpellcheckServiceHandler {
+  return (text, callback, lang) => {
+    callback(checkText(dictionaries, text, lang, suggestions))
+  }
+}
+
+// Create the `suggest` config for `setupSpellcheck()`, so suggestions
+// are only looked up for the word at the cursor.
+export function createLocalSuggest (dictionaries: SpellcheckDictionaries, limit?: number): (word: string, lang?: string) => string[] {
+  return (word, lang) => getDictionary(dictionaries, lang)?.suggest(word, limit) || []
+}
+
+export interface SpellcheckWorkerRequest {
+  id: number
+  text: string
+  lang?: string
+}
+
+export interface SpellcheckWorkerResponse {
+  id: number
+  misspellings: SpellcheckMisspelling[]
+}
+
+// The parts of a Worker (and of the global scope inside a worker)
+// that are used to exchange spellcheck requests.
+export interface SpellcheckMessagePort {
+  postMessage: (message: unknown) => void
+  addEventListener: (type: 'message' | 'error' | 'messageerror', listener: (event: Event) => void) => void
+}
+
+// Create a spellcheck service that sends the text to a Web Worker.
+// The worker has to answer with handleSpellcheckRequests().
+//
+// Example:
+// const worker = new Worker(new URL('./spellcheck-worker.js', import.meta.url), {type: 'module'})
+// editable.setupSpellcheck({spellcheckService: createWorkerSpellcheckService(worker)})
+export function createWorkerSpellcheckService (worker: SpellcheckMessagePort): SpellcheckServiceHandler {
+  const pending = new Map<number, SpellcheckServiceCallback>()
+  let requestId = 0
+
+  worker.addEventListener('message', (event) => {
+    const {id, misspellings} = (event as MessageEvent).data as SpellcheckWorkerResponse
+    const callback = pending.get(id)
+    if (!callback) return
+    pending.delete(id)
+    callback(misspellings)
+  })
+
+  // A failed worker does not answer, so the waiting requests fail.
+  const failAll = (event: Event) => {
+    const err = new Error(`Spellcheck worker: ${(event as ErrorEvent).message || event.type}`)
+    const callbacks = [...pending.values()]
+    pending.clear()
+    for (const callback of callbacks) callback(undefined, err)
+  }
+  worker.addEventListener('error', failAll)
+  worker.addEventListener('messageerror', failAll)
+
+  return (text, callback, lang) => {
+    const id = ++requestId
+    pending.set(id, callback)
+    const request: SpellcheckWorkerRequest = {id, text, lang}
+    worker.postMessage(request)
+  }
+}
+
+// Answer the requests of createWorkerSpellcheckService() inside a Web Worker.
+//
+// Example (spellcheck-worker.js):
+// import {SpellcheckDictionary, handleSpellcheckRequests} from 'editable.ts/local-spellcheck'
+// const dictionary = SpellcheckDictionary.fromHunspell(aff, dic)
+// handleSpellcheckRequests(self, dictionary)
+export function handleSpellcheckRequests (scope: SpellcheckMessagePort, dictionaries: SpellcheckDictionaries, {suggestions = false}: {suggestions?: boolean} = {}): void {
+  scope.addEventListener('message', (event) => {
+    const {id, text, lang} = (event as MessageEvent).data as SpellcheckWorkerRequest
+    const response: SpellcheckWorkerResponse = {id, misspellings: checkText(dictionaries, text, lang, suggestions)}
+    scope.postMessage(response)
+  })
+}
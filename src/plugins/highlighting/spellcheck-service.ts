@@ -13,22 +13,74 @@ import type {
 */
 export default class SpellcheckService {
   private spellcheckService: SpellcheckServiceHandler
+  private suggest?: (word: string, lang?: string) => string[]
+  private suggestions: Map<string, string[]>
+  private ignoredWords: Set<string>
 
-  constructor (spellcheckService: SpellcheckServiceHandler) {
+  constructor (spellcheckService: SpellcheckServiceHandler, suggest?: (word: string, lang?: string) => string[]) {
     this.spellcheckService = spellcheckService
+    this.suggest = suggest
+    this.suggestions = new Map()
+    this.ignoredWords = new Set()
   }
 
-  check (text: string, callback: SpellcheckCheckCallback): void {
+  // @param {String} lang The language of the text (optional).
+  // Errors thrown by the spellcheck service are passed to the callback.
+  check (text: string, callback: SpellcheckCheckCallback, lang?: string): void {
     if (!text) return callback(null)
 
     const condensedText = content.normalizeWhitespace(text)
 
-    this.spellcheckService(condensedText, (misspelledWords?: SpellcheckResult) => {
-      if (misspelledWords && misspelledWords.length > 0) {
+    let answered = false
+    const handleResult = (result?: SpellcheckResult, err?: Error) => {
+      answered = true
+      if (err) return callback(err)
+      const misspelledWords: string[] = []
+      for (const misspelling of result || []) {
+        const {word, suggestions} = typeof misspelling === 'string' ? {word: misspelling} : misspelling
+        if (this.ignoredWords.has(word)) continue
+        if (suggestions) this.suggestions.set(suggestionKey(word, lang), suggestions)
+        misspelledWords.push(word)
+      }
+
+      if (misspelledWords.length > 0) {
         return callback(null, misspelledWords)
       }
       return callback(null)
-    })
+    }
+
+    try {
+      this.spellcheckService(condensedText, handleResult, lang)
+    } catch (err) {
+      if (answered) throw err
+      callback(err instanceof Error ? err : new Error(String(err)))
+    }
+  }
+
+  // Get the suggestions the spellcheck service returned for a word.
+  // Without any, they are requested from the `suggest` config.
+  getSuggestions (word: string, lang?: string): string[] {
+    const key = suggestionKey(word, lang)
+    const suggestions = this.suggestions.get(key)
+    if (suggestions || !this.suggest) return suggestions || []
+
+    const requested = this.suggest(word, lang)
+    this.suggestions.set(key, requested)
+    return requested
   }
 
+  // Do not report a word as misspelled anymore (until the page is reloaded).
+  ignoreWord (word: string): void {
+    this.ignoredWords.add(word)
+  }
+
+  isIgnored (word: string): boolean {
+    return this.ignoredWords.has(word)
+  }
+
+}
+
+// Suggestions depend on the language a word was checked in.
+function suggestionKey (word: string, lang: string = ''): string {
+  return `${lang}:${word}`
 }
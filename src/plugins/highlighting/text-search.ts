@@ -5,6 +5,19 @@ export interface Match {
   marker?: HTMLElement
 }
 
+// A match of searchPattern() with the result of the regular expression.
+export interface PatternMatch extends Match {
+  result: RegExpMatchArray
+}
+
+export interface SearchOptions {
+  caseSensitive?: boolean
+  // Only match if the query is not part of a longer word.
+  wholeWord?: boolean
+  // Interpret the query as a regular expression.
+  regex?: boolean
+}
+
 export function searchText (text: string, searchTerm: string, marker?: HTMLElement): Match[] {
   const matchMode = 'text'
   return findMatches(text, [searchTerm], matchMode, marker)
@@ -20,6 +33,55 @@ export function searchAllWords (text: string, words: string[], marker?: HTMLElem
   return findMatches(text, words, matchMode, marker)
 }
 
+// Find all matches of a user entered query.
+// Throws a SyntaxError for an invalid regular expression.
+export function searchPattern (text: string, query: string, options: SearchOptions = {}, marker?: HTMLElement): PatternMatch[] {
+  if (!text || !query) return []
+
+  const regex = createSearchRegex(query, options)
+  return [...text.matchAll(regex)]
+    .filter((match) => match[0] !== '')
+    .map((match) => ({
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      match: match[0],
+      marker,
+      result: match
+    }))
+}
+
+// Expand the $ patterns of a replacement like String#replace() does,
+// e.g. '$1' or '$<name>' for capture groups, with the result of a match.
+export function expandReplacement (replacement: string, result: RegExpMatchArray): string {
+  const [matched] = result
+  const input = result.input || ''
+  const index = result.index || 0
+  const groupCount = result.length - 1
+  return replacement.replace(/\$(\$|&|`|'|\d\d?|<[^>]*>)/g, (pattern, token: string) => {
+    if (token === '$') return '$'
+    if (token === '&') return matched
+    if (token === '`') return input.slice(0, index)
+    if (token === "'") return input.slice(index + matched.length)
+    if (token[0] === '<') {
+      if (!result.groups) return pattern
+      return result.groups[token.slice(1, -1)] || ''
+    }
+
+    // '$12' refers to group 1 followed by '2' if there are less than 12 groups
+    const number = Number(token)
+    if (number >= 1 && number <= groupCount) return result[number] || ''
+    const first = Number(token[0])
+    if (token.length === 2 && first >= 1 && first <= groupCount) return (result[first] || '') + token[1]
+    return pattern
+  })
+}
+
+export function createSearchRegex (query: string, {caseSensitive = false, wholeWord = false, regex = false}: SearchOptions = {}): RegExp {
+  let source = regex ? query : escapeRegEx(query)
+  if (wholeWord) source = `(?<![${letterChars}_])(?:${source})(?![${letterChars}_])`
+  return new RegExp(source, caseSensitive ? 'g' : 'gi')
+}
+
 function findMatches (text: string, searchTexts: string[], matchMode: 'text' | 'word', marker?: HTMLElement): Match[] {
   if (!text || text === '') return []
   if (marker && !isElement(marker)) return []
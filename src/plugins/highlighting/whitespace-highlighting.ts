@@ -25,6 +25,9 @@ const characters = {
 const specialWhitespaceChars = '\\u2000-\\u200A\\u202F\\u205F\\u3000'
 const specialWhitespaceCharsRegex = new RegExp(`[${specialWhitespaceChars}]`, 'g')
 
+// Returns true for whitespace that is expected at its position.
+export type WhitespaceCheck = (text: string, index: number, lang: string) => boolean
+
 export interface WhitespaceMatch {
   startIndex: number | undefined
   endIndex: number
@@ -35,15 +38,25 @@ export interface WhitespaceMatch {
 
 export default class WhitespaceHighlighting {
   public marker: HTMLElement
+  private allowedWhitespace: WhitespaceCheck[]
 
   constructor (markerNode: HTMLElement) {
     this.marker = markerNode
+    this.allowedWhitespace = []
+  }
+
+  // Do not highlight whitespace that is expected at its position
+  // (e.g. the narrow no-break spaces of French typography).
+  allow (check: WhitespaceCheck): void {
+    this.allowedWhitespace.push(check)
   }
 
-  findMatches (text: string): WhitespaceMatch[] | undefined {
+  // @param {Function} langAt Returns the language at a position of the text.
+  findMatches (text: string, langAt: (index: number) => string = () => ''): WhitespaceMatch[] | undefined {
     if (!text) return
 
     const matches = [...text.matchAll(specialWhitespaceCharsRegex)]
+      .filter((entry) => !this.allowedWhitespace.some((check) => check(text, entry.index!, langAt(entry.index!))))
     return matches.map((entry) => this.prepareMatch(entry))
   }
 
@@ -7,11 +7,33 @@ export interface DiffOperation {
   newEnd: number
 }
 
+export type DiffGranularity = 'char' | 'word' | 'sentence'
+
+export interface DiffOptions {
+  // Smallest unit that is compared: single characters, words or sentences.
+  granularity?: DiffGranularity
+  // Maximum time in ms spent on a diff before the remaining
+  // difference is reported as one deletion and one insertion.
+  timeout?: number
+}
+
+type DiffType = DiffOperation['type']
+
+interface DiffRun {
+  type: DiffType
+  value: string
+}
+
 /**
- * Compute character-level diff between two strings
+ * Compute the diff between two strings
  * Returns an array of operations (equal, delete, insert)
+ *
+ * Uses the linear space variant of the Myers algorithm on characters,
+ * words or sentences followed by a semantic cleanup that merges short
+ * equalities into the surrounding changes (e.g. 'hello world' -> 'hi there'
+ * results in one replacement instead of many single character edits).
  */
-export function computeDiff(oldText: string, newText: string): DiffOperation[] {
+export function computeDiff(oldText: string, newText: string, {granularity = 'char', timeout = 1000}: DiffOptions = {}): DiffOperation[] {
   if (oldText === newText) {
     return [{
       type: 'equal',
@@ -45,125 +67,253 @@ export function computeDiff(oldText: string, newText: string): DiffOperation[] {
     }]
   }
 
-  // Use longest common subsequence (LCS) approach
-  const operations: DiffOperation[] = []
-  const lcs = computeLCS(oldText, newText)
+  const deadline = Date.now() + timeout
+  const runs = diffTokens(tokenize(oldText, granularity), tokenize(newText, granularity), deadline)
+  return toOperations(cleanupSemantic(mergeRuns(runs)))
+}
 
-  let oldIndex = 0
-  let newIndex = 0
-  let lcsIndex = 0
-
-  while (oldIndex < oldText.length || newIndex < newText.length) {
-    // Find the next common character
-    if (lcsIndex < lcs.length &&
-        oldIndex < oldText.length &&
-        newIndex < newText.length &&
-        oldText[oldIndex] === lcs[lcsIndex] &&
-        newText[newIndex] === lcs[lcsIndex]) {
-      // Common character found
-      const startOld = oldIndex
-      const startNew = newIndex
-      let commonLength = 0
-
-      while (lcsIndex < lcs.length &&
-             oldIndex < oldText.length &&
-             newIndex < newText.length &&
-             oldText[oldIndex] === lcs[lcsIndex] &&
-             newText[newIndex] === lcs[lcsIndex]) {
-        commonLength++
-        oldIndex++
-        newIndex++
-        lcsIndex++
-      }
+/**
+ * Split a text into the tokens that are compared.
+ * Joining the tokens always results in the original text.
+ */
+export function tokenize(text: string, granularity: DiffGranularity): string[] {
+  if (granularity === 'word') return text.match(/\s+|[\p{L}\p{M}\p{N}_]+|[^]/gu) || []
+  if (granularity === 'sentence') return text.match(/[^.!?…]+(?:[.!?…]+\s*|$)|[.!?…]+\s*/g) || []
+  return Array.from(text)
+}
 
-      operations.push({
-        type: 'equal',
-        value: oldText.substring(startOld, (startOld + commonLength)),
-        oldStart: startOld,
-        oldEnd: (startOld + commonLength),
-        newStart: startNew,
-        newEnd: (startNew + commonLength)
-      })
-    } else {
-      // Handle deletions and insertions
-      const deleteStart = oldIndex
-      const insertStart = newIndex
-
-      // Collect deletions (characters in oldText not in LCS)
-      while (oldIndex < oldText.length &&
-             ((lcsIndex >= lcs.length) || (oldText[oldIndex] !== lcs[lcsIndex]))) {
-        oldIndex++
+// Myers Algorithm
+// ---------------
+
+function diffTokens(oldTokens: string[], newTokens: string[], deadline: number): DiffRun[] {
+  // Trim the common prefix and suffix
+  let prefix = 0
+  while (prefix < oldTokens.length && prefix < newTokens.length && oldTokens[prefix] === newTokens[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (suffix < oldTokens.length - prefix && suffix < newTokens.length - prefix &&
+    oldTokens[oldTokens.length - suffix - 1] === newTokens[newTokens.length - suffix - 1]) {
+    suffix++
+  }
+
+  const oldMiddle = oldTokens.slice(prefix, oldTokens.length - suffix)
+  const newMiddle = newTokens.slice(prefix, newTokens.length - suffix)
+
+  const runs: DiffRun[] = []
+  if (prefix) runs.push({type: 'equal', value: oldTokens.slice(0, prefix).join('')})
+
+  if (!oldMiddle.length) {
+    if (newMiddle.length) runs.push({type: 'insert', value: newMiddle.join('')})
+  } else if (!newMiddle.length) {
+    runs.push({type: 'delete', value: oldMiddle.join('')})
+  } else {
+    runs.push(...bisect(oldMiddle, newMiddle, deadline))
+  }
+
+  if (suffix) runs.push({type: 'equal', value: oldTokens.slice(oldTokens.length - suffix).join('')})
+  return runs
+}
+
+// Find the middle snake of the shortest edit script and split
+// the problem in two halves at that point.
+// See: Myers, An O(ND) Difference Algorithm and Its Variations (1986)
+function bisect(oldTokens: string[], newTokens: string[], deadline: number): DiffRun[] {
+  const oldLength = oldTokens.length
+  const newLength = newTokens.length
+  const maxD = Math.ceil((oldLength + newLength) / 2)
+  const vOffset = maxD
+  const vLength = 2 * maxD
+  const v1 = new Array<number>(vLength).fill(-1)
+  const v2 = new Array<number>(vLength).fill(-1)
+  v1[vOffset + 1] = 0
+  v2[vOffset + 1] = 0
+
+  const delta = oldLength - newLength
+  // If the total number of tokens is odd, the front path collides with the reverse path.
+  const front = delta % 2 !== 0
+  // Offsets for the start and end of the k loops to skip
+  // diagonals that run off the edit graph.
+  let k1start = 0
+  let k1end = 0
+  let k2start = 0
+  let k2end = 0
+
+  for (let d = 0; d < maxD; d++) {
+    if (Date.now() > deadline) break
+
+    // Walk the front path one step
+    for (let k1 = -d + k1start; k1 <= d - k1end; k1 += 2) {
+      const k1Offset = vOffset + k1
+      let x1 = k1 === -d || (k1 !== d && v1[k1Offset - 1] < v1[k1Offset + 1])
+        ? v1[k1Offset + 1]
+        : v1[k1Offset - 1] + 1
+      let y1 = x1 - k1
+      while (x1 < oldLength && y1 < newLength && oldTokens[x1] === newTokens[y1]) {
+        x1++
+        y1++
       }
+      v1[k1Offset] = x1
 
-      // Collect insertions (characters in newText not in LCS)
-      while (newIndex < newText.length &&
-             ((lcsIndex >= lcs.length) || (newText[newIndex] !== lcs[lcsIndex]))) {
-        newIndex++
+      if (x1 > oldLength) {
+        k1end += 2
+      } else if (y1 > newLength) {
+        k1start += 2
+      } else if (front) {
+        const k2Offset = vOffset + delta - k1
+        if (k2Offset >= 0 && k2Offset < vLength && v2[k2Offset] !== -1) {
+          // Mirror x2 onto the top-left coordinate system
+          const x2 = oldLength - v2[k2Offset]
+          if (x1 >= x2) return bisectSplit(oldTokens, newTokens, x1, y1, deadline)
+        }
       }
+    }
 
-      if (oldIndex > deleteStart) {
-        operations.push({
-          type: 'delete',
-          value: oldText.substring(deleteStart, oldIndex),
-          oldStart: deleteStart,
-          oldEnd: oldIndex,
-          newStart: insertStart,
-          newEnd: insertStart
-        })
+    // Walk the reverse path one step
+    for (let k2 = -d + k2start; k2 <= d - k2end; k2 += 2) {
+      const k2Offset = vOffset + k2
+      let x2 = k2 === -d || (k2 !== d && v2[k2Offset - 1] < v2[k2Offset + 1])
+        ? v2[k2Offset + 1]
+        : v2[k2Offset - 1] + 1
+      let y2 = x2 - k2
+      while (x2 < oldLength && y2 < newLength &&
+        oldTokens[oldLength - x2 - 1] === newTokens[newLength - y2 - 1]) {
+        x2++
+        y2++
       }
+      v2[k2Offset] = x2
 
-      if (newIndex > insertStart) {
-        operations.push({
-          type: 'insert',
-          value: newText.substring(insertStart, newIndex),
-          oldStart: deleteStart,
-          oldEnd: deleteStart,
-          newStart: insertStart,
-          newEnd: newIndex
-        })
+      if (x2 > oldLength) {
+        k2end += 2
+      } else if (y2 > newLength) {
+        k2start += 2
+      } else if (!front) {
+        const k1Offset = vOffset + delta - k2
+        if (k1Offset >= 0 && k1Offset < vLength && v1[k1Offset] !== -1) {
+          const x1 = v1[k1Offset]
+          const y1 = vOffset + x1 - k1Offset
+          if (x1 >= oldLength - x2) return bisectSplit(oldTokens, newTokens, x1, y1, deadline)
+        }
       }
     }
   }
 
-  return operations
+  // No overlap found (or the deadline was hit)
+  return [
+    {type: 'delete', value: oldTokens.join('')},
+    {type: 'insert', value: newTokens.join('')}
+  ]
 }
 
-/**
- * Compute Longest Common Subsequence (LCS) between two strings
- * Returns the LCS as a string
- */
-function computeLCS(str1: string, str2: string): string {
-  const m = str1.length
-  const n = str2.length
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0))
-
-  // Build DP table
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (str1[i - 1] === str2[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1
+function bisectSplit(oldTokens: string[], newTokens: string[], x: number, y: number, deadline: number): DiffRun[] {
+  return [
+    ...diffTokens(oldTokens.slice(0, x), newTokens.slice(0, y), deadline),
+    ...diffTokens(oldTokens.slice(x), newTokens.slice(y), deadline)
+  ]
+}
+
+// Cleanup
+// -------
+
+// Merge adjacent runs of the same type and put the deletions
+// before the insertions between two equalities.
+function mergeRuns(runs: DiffRun[]): DiffRun[] {
+  const merged: DiffRun[] = []
+  let deleted = ''
+  let inserted = ''
+
+  const flushChanges = () => {
+    if (deleted) merged.push({type: 'delete', value: deleted})
+    if (inserted) merged.push({type: 'insert', value: inserted})
+    deleted = ''
+    inserted = ''
+  }
+
+  for (const run of runs) {
+    if (!run.value) continue
+    if (run.type === 'delete') {
+      deleted += run.value
+    } else if (run.type === 'insert') {
+      inserted += run.value
+    } else {
+      flushChanges()
+      const last = merged[merged.length - 1]
+      if (last && last.type === 'equal') {
+        last.value += run.value
       } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1])
+        merged.push({...run})
       }
     }
   }
+  flushChanges()
+  return merged
+}
+
+// Turn equalities that are not longer than the changes on both
+// of their sides into a deletion and an insertion.
+function cleanupSemantic(runs: DiffRun[]): DiffRun[] {
+  const diffs = runs.map((run) => ({...run}))
+  const equalities: number[] = []
+  let lastEquality: string | undefined
+  let changes = false
+  // Number of changed characters before and after the last equality
+  let insertedBefore = 0
+  let deletedBefore = 0
+  let insertedAfter = 0
+  let deletedAfter = 0
 
-  // Reconstruct LCS
-  let lcs = ''
-  let i = m
-  let j = n
-
-  while (i > 0 && j > 0) {
-    if (str1[i - 1] === str2[j - 1]) {
-      lcs = str1[i - 1] + lcs
-      i--
-      j--
-    } else if (dp[i - 1][j] > dp[i][j - 1]) {
-      i--
+  let pointer = 0
+  while (pointer < diffs.length) {
+    const diff = diffs[pointer]
+    if (diff.type === 'equal') {
+      equalities.push(pointer)
+      insertedBefore = insertedAfter
+      deletedBefore = deletedAfter
+      insertedAfter = 0
+      deletedAfter = 0
+      lastEquality = diff.value
     } else {
-      j--
+      if (diff.type === 'insert') {
+        insertedAfter += diff.value.length
+      } else {
+        deletedAfter += diff.value.length
+      }
+
+      if (lastEquality !== undefined &&
+        lastEquality.length <= Math.max(insertedBefore, deletedBefore) &&
+        lastEquality.length <= Math.max(insertedAfter, deletedAfter)) {
+        // Replace the equality with a deletion and an insertion
+        const index = equalities[equalities.length - 1]
+        diffs.splice(index, 0, {type: 'delete', value: lastEquality})
+        diffs[index + 1].type = 'insert'
+
+        // Reevaluate the previous equality as well
+        equalities.pop()
+        equalities.pop()
+        pointer = equalities.length ? equalities[equalities.length - 1] : -1
+        insertedBefore = 0
+        deletedBefore = 0
+        insertedAfter = 0
+        deletedAfter = 0
+        lastEquality = undefined
+        changes = true
+      }
     }
+    pointer++
   }
 
-  return lcs
+  return changes ? mergeRuns(diffs) : diffs
+}
+
+function toOperations(runs: DiffRun[]): DiffOperation[] {
+  let oldIndex = 0
+  let newIndex = 0
+
+  return runs.map(({type, value}) => {
+    const oldStart = oldIndex
+    const newStart = newIndex
+    if (type !== 'insert') oldIndex += value.length
+    if (type !== 'delete') newIndex += value.length
+    return {type, value, oldStart, oldEnd: oldIndex, newStart, newEnd: newIndex}
+  })
 }
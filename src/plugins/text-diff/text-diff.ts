@@ -5,22 +5,25 @@ import {domArray, domSelector} from '../../util/dom.js'
 import * as content from '../../content.js'
 import type {Editable} from '../../core.js'
 import type {PendingEditableTimeout} from '../../plugin-types.js'
-import type {TextDiffOptions} from '../../plugin-types.js'
+import type {TextDiffChange, TextDiffOptions} from '../../plugin-types.js'
 
 export default class TextDiff {
   public editable: Editable
   public win: Window
   public config: Required<TextDiffOptions>
   public originalTexts: Map<HTMLElement, string>
+  public changes: Map<HTMLElement, TextDiffChange[]>
   public timeout: PendingEditableTimeout
   public deletedMarkerNode: HTMLElement
   public insertedMarkerNode: HTMLElement
   private isApplyingDiff: boolean = false
+  private changeCounter: number = 0
 
   constructor(editable: Editable, configuration: Partial<TextDiffOptions>) {
     this.editable = editable
     this.win = editable.win
     this.originalTexts = new Map()
+    this.changes = new Map()
 
     const defaultConfig: Required<TextDiffOptions> = {
       enabled: true,
@@ -28,7 +31,9 @@ export default class TextDiff {
       checkOnFocus: false,
       markerDeleted: '<span class="highlight-diff-deleted"></span>',
       markerInserted: '<span class="highlight-diff-inserted"></span>',
-      throttle: 300
+      throttle: 300,
+      author: '',
+      granularity: 'char'
     }
 
     this.config = Object.assign({}, defaultConfig, configuration)
@@ -86,8 +91,11 @@ export default class TextDiff {
     }
 
     const timeoutId = setTimeout(() => {
-      this.computeAndApplyDiff(editableHost)
       this.timeout = {}
+      // The change event at the end of an IME composition
+      // computes the diff again.
+      if (this.editable.isComposing(editableHost)) return
+      this.computeAndApplyDiff(editableHost)
     }, this.config.throttle)
 
     this.timeout = {
@@ -101,6 +109,7 @@ export default class TextDiff {
     this.originalTexts.set(editableHost, text)
     // Clear existing diff highlights when capturing new original
     this.clearDiffHighlights(editableHost)
+    this.updateChanges(editableHost, [])
   }
 
   setOriginalText(editableHost: HTMLElement, text: string): void {
@@ -115,22 +124,145 @@ export default class TextDiff {
   clearOriginalText(editableHost: HTMLElement): void {
     this.originalTexts.delete(editableHost)
     this.clearDiffHighlights(editableHost)
+    this.updateChanges(editableHost, [])
+  }
+
+  // Get the text of a block without the deleted text shown by the diff markers.
+  getCurrentText(editableHost: HTMLElement): string {
+    const clone = editableHost.cloneNode(true) as HTMLElement
+    for (const elem of domArray('[data-highlight="diff-deleted"]', this.win.document, clone)) {
+      elem.remove()
+    }
+    return highlightText.extractText(clone)
   }
 
   computeAndApplyDiff(editableHost: HTMLElement): void {
     const originalText = this.originalTexts.get(editableHost)
-    if (!originalText) return
+    if (originalText === undefined) return
 
-    const currentText = highlightText.extractText(editableHost)
+    const currentText = this.getCurrentText(editableHost)
     if (originalText === currentText) {
       this.clearDiffHighlights(editableHost)
+      this.updateChanges(editableHost, [])
       return
     }
 
-    const operations = computeDiff(originalText, currentText)
+    const operations = computeDiff(originalText, currentText, {granularity: this.config.granularity})
+    this.updateChanges(editableHost, operations)
     this.applyDiff(editableHost, operations)
   }
 
+  getChanges(editableHost: HTMLElement): TextDiffChange[] {
+    return this.changes.get(editableHost) || []
+  }
+
+  // Accepting a change applies it to the original text.
+  acceptChange(changeId: string): boolean {
+    const found = this.findChange(changeId)
+    if (!found) return false
+
+    const {editableHost, change} = found
+    const originalText = this.originalTexts.get(editableHost) || ''
+    const acceptedText = change.type === 'insert'
+      ? originalText.slice(0, change.oldStart) + change.value + originalText.slice(change.oldStart)
+      : originalText.slice(0, change.oldStart) + originalText.slice(change.oldEnd)
+    this.setOriginalText(editableHost, acceptedText)
+    return true
+  }
+
+  // Rejecting a change reverts it in the block.
+  rejectChange(changeId: string): boolean {
+    const found = this.findChange(changeId)
+    if (!found) return false
+
+    this.revertChanges(found.editableHost, [found.change])
+    return true
+  }
+
+  acceptAll(editableHost: HTMLElement): void {
+    if (!this.originalTexts.has(editableHost)) return
+    this.setOriginalText(editableHost, this.getCurrentText(editableHost))
+  }
+
+  rejectAll(editableHost: HTMLElement): void {
+    const changes = this.getChanges(editableHost)
+    if (!changes.length) return
+    this.revertChanges(editableHost, changes)
+  }
+
+  findChange(changeId: string): {editableHost: HTMLElement, change: TextDiffChange} | undefined {
+    for (const [editableHost, changes] of this.changes) {
+      const change = changes.find((c) => c.id === changeId)
+      if (change) return {editableHost, change}
+    }
+    return undefined
+  }
+
+  revertChanges(editableHost: HTMLElement, changes: TextDiffChange[]): void {
+    for (const change of changes) {
+      const markers = domArray(`[data-word-id="${change.id}"]`, this.win.document, editableHost)
+      if (change.type === 'insert') {
+        for (const marker of markers) marker.remove()
+      } else if (markers.length) {
+        for (const marker of markers) marker.replaceWith(this.win.document.createTextNode(marker.textContent || ''))
+      } else if (!this.getCurrentText(editableHost)) {
+        // No deletion marker is shown in an empty block
+        editableHost.appendChild(this.win.document.createTextNode(change.value))
+      }
+    }
+    editableHost.normalize()
+
+    this.computeAndApplyDiff(editableHost)
+    this.editable.dispatcher.notify('change', editableHost)
+  }
+
+  // Assign the changes of a diff to the changes of the previous diff,
+  // so a change keeps its id, author and timestamp while it is edited.
+  updateChanges(editableHost: HTMLElement, operations: DiffOperation[]): TextDiffChange[] {
+    const previousChanges = this.getChanges(editableHost)
+    const unassigned = [...previousChanges]
+    const take = (predicate: (change: TextDiffChange) => boolean) => {
+      const index = unassigned.findIndex(predicate)
+      return index === -1 ? undefined : unassigned.splice(index, 1)[0]
+    }
+
+    const changes: TextDiffChange[] = []
+    for (const op of operations) {
+      if (op.type === 'equal') continue
+      const previous = take((c) => c.type === op.type && (c.oldStart === op.oldStart || c.oldEnd === op.oldEnd)) ||
+        take((c) => c.type === op.type && c.value === op.value)
+
+      changes.push({
+        id: previous ? previous.id : `diff-${++this.changeCounter}`,
+        type: op.type,
+        value: op.value,
+        oldStart: op.oldStart,
+        oldEnd: op.oldEnd,
+        newStart: op.newStart,
+        newEnd: op.newEnd,
+        author: previous ? previous.author : this.config.author,
+        timestamp: previous ? previous.timestamp : Date.now()
+      })
+    }
+
+    if (changes.length) {
+      this.changes.set(editableHost, changes)
+    } else {
+      this.changes.delete(editableHost)
+    }
+
+    if (JSON.stringify(changes) !== JSON.stringify(previousChanges)) {
+      this.editable.dispatcher.notify('textDiffUpdated', editableHost, changes)
+    }
+    return changes
+  }
+
+  getChangeId(editableHost: HTMLElement, op: DiffOperation): string | undefined {
+    const change = this.getChanges(editableHost)
+      .find((c) => c.type === op.type && c.oldStart === op.oldStart && c.newStart === op.newStart)
+    return change?.id
+  }
+
   applyDiff(editableHost: HTMLElement, operations: DiffOperation[]): void {
     // Prevent recursive calls
     if (this.isApplyingDiff) return
@@ -162,7 +294,7 @@ export default class TextDiff {
     // First, handle insertions (they exist in current text)
     for (const op of operations) {
       if (op.type === 'insert') {
-        const highlightId = `diff-inserted-${highlightIdCounter++}`
+        const highlightId = this.getChangeId(editableHost, op) || `diff-inserted-${highlightIdCounter++}`
         const startIndex = op.newStart
         const endIndex = Math.min(op.newEnd, currentText.length)
         
@@ -191,7 +323,7 @@ export default class TextDiff {
     
     for (const op of deletions) {
       if (currentText.length === 0) continue
-      const highlightId = `diff-deleted-${highlightIdCounter++}`
+      const highlightId = this.getChangeId(editableHost, op) || `diff-deleted-${highlightIdCounter++}`
       const insertPosition = this.mapOriginalToCurrentPosition(operations, op.oldStart)
       
       if (insertPosition !== null) {
@@ -257,7 +389,11 @@ export default class TextDiff {
     const host = domSelector(editableHost, this.win.document)
     if (!host) return
 
-    for (const elem of domArray('[data-highlight="diff-deleted"], [data-highlight="diff-inserted"]', this.win.document, host)) {
+    // Deletion markers contain text that is not part of the block
+    for (const elem of domArray('[data-highlight="diff-deleted"]', this.win.document, host)) {
+      elem.remove()
+    }
+    for (const elem of domArray('[data-highlight="diff-inserted"]', this.win.document, host)) {
       content.unwrap(elem)
     }
   }
@@ -0,0 +1,109 @@
+import {replaceMatch} from '../../input-rules.js'
+import {getLang} from '../../util/dom.js'
+import type {Editable} from '../../core.js'
+import type {InputRule} from '../../input-rules.js'
+import type {ParsedBlock} from '../../clipboard.js'
+import type {PasteContext} from '../../paste-transforms.js'
+import type {TypographyOptions} from '../../plugin-types.js'
+
+export const narrowNoBreakSpace = '\u202F'
+
+// Rules for pasted html. A space before a colon is replaced, but a colon
+// without a space is left as it is to not change times (10:30) or urls.
+// Question marks or semicolons are only changed at the end of a word,
+// which excludes urls and html entities (&amp;).
+const pasteRules: Array<[RegExp, string]> = [
+  [/(?<![\s\u00A0\u202F;:!?«(]|&nbsp;|^)(?: |\u00A0|&nbsp;)?(?<!&[#\w]+)([;!?])(?=$|[\s\u00A0<;:!?»)]|&nbsp;)(?![^<]*>)/g, '\u202F$1'],
+  [/(?<![\s\u00A0\u202F]|&nbsp;|^)(?: |\u00A0|&nbsp;):(?![^<]*>)/g, '\u202F:'],
+  [/«(?: |\u00A0|&nbsp;)?(?![\s\u00A0\u202F]|&nbsp;|$)(?![^<]*>)/g, '«\u202F'],
+  [/(?<![\s\u00A0\u202F«]|&nbsp;|^)(?: |\u00A0|&nbsp;)?»(?![^<]*>)/g, '\u202F»']
+]
+
+// Insert narrow no-break spaces into html according
+// to French typography.
+export function addNarrowSpaces(html: string): string {
+  return pasteRules.reduce((result, [regex, replacement]) => result.replace(regex, replacement), html)
+}
+
+// Check if a language is one of a list of languages.
+// 'fr-CH' matches 'fr' and 'fr-CH' but not 'fr-CA'.
+export function matchesLanguage(lang: string, languages: string[]): boolean {
+  const code = lang.toLowerCase()
+  return languages.some((language) => {
+    const entry = language.toLowerCase()
+    return code === entry || code.split('-')[0] === entry
+  })
+}
+
+/**
+ * French and Swiss typography.
+ *
+ * Inserts narrow no-break spaces (U+202F) before ; : ! ? and inside
+ * guillemets while typing and into pasted content. The spaces are only
+ * inserted into text in one of the configured languages (from the nearest
+ * lang attribute or the document).
+ */
+export default class Typography {
+  public editable: Editable
+  public config: Required<TypographyOptions>
+  public inputRules: InputRule[]
+
+  constructor(editable: Editable, configuration: Partial<TypographyOptions>) {
+    this.editable = editable
+
+    const defaultConfig: Required<TypographyOptions> = {
+      languages: ['fr'],
+      typing: true,
+      paste: true,
+      profiles: ['default']
+    }
+
+    this.config = Object.assign({}, defaultConfig, configuration)
+    this.inputRules = [
+      this.createRule(/(?<![\s\u00A0\u202F;:!?«(]|^)[ \u00A0]?[;!?]$/, (match) => `${narrowNoBreakSpace}${match.slice(-1)}`),
+      this.createRule(/(?<![\s\u00A0\u202F]|^)[ \u00A0]:$/, () => `${narrowNoBreakSpace}:`),
+      this.createRule(/(?<=«)[ \u00A0]$/, () => narrowNoBreakSpace),
+      this.createRule(/(?<=«)[^\s\u00A0\u202F»]$/, (match) => `${narrowNoBreakSpace}${match}`),
+      this.createRule(/(?<![\s\u00A0\u202F«]|^)[ \u00A0]?»$/, () => `${narrowNoBreakSpace}»`),
+      // The smart quotes rule replaces a typed quote with a guillemet
+      // instead of this rule, so the space is inserted with the next character.
+      this.createRule(/(?<![\s\u00A0\u202F«]|^)».$/, (match) => `${narrowNoBreakSpace}${match}`)
+    ]
+
+    if (this.config.typing) {
+      this.editable.dispatcher.useInputRules(this.inputRules)
+    }
+    if (this.config.paste) {
+      for (const profile of this.config.profiles) {
+        this.editable.pasteTransforms.use({blocks: (blocks, context) => this.paste(blocks, context)}, {profile})
+      }
+    }
+  }
+
+  appliesTo(lang: string): boolean {
+    return matchesLanguage(lang, this.config.languages)
+  }
+
+  // Paste transform of the configured paste profiles (see PasteTransforms).
+  paste(blocks: ParsedBlock[], context: PasteContext): ParsedBlock[] | void {
+    if (!this.appliesTo(context.lang)) return
+    return blocks.map((block) => ({...block, html: addNarrowSpaces(block.html)}))
+  }
+
+  // Check if a special whitespace at a position of a text was
+  // inserted by the typography rules (see WhitespaceHighlighting).
+  isTypographicSpace = (text: string, index: number, lang: string): boolean => {
+    if (text[index] !== narrowNoBreakSpace || !this.appliesTo(lang)) return false
+    return text[index - 1] === '«' || /^[;:!?»]$/.test(text[index + 1] || '')
+  }
+
+  createRule(match: RegExp, replacement: (match: string) => string): InputRule {
+    return {
+      match,
+      handler: (context) => {
+        if (!this.appliesTo(getLang(context.range.startContainer))) return false
+        replaceMatch(context, replacement(context.match[0]))
+      }
+    }
+  }
+}
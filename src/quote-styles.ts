@@ -0,0 +1,46 @@
+import type {QuotePair} from './smartQuotes.js'
+
+export interface QuoteStyle {
+  quotes: QuotePair
+  singleQuotes: QuotePair
+  apostrophe: string
+}
+
+// Typographic quotes by language code. Codes with a region
+// (e.g. 'de-CH') take precedence over the primary language ('de').
+// Add entries to support further languages.
+export const quoteStyles: Record<string, QuoteStyle> = {
+  'en': {quotes: ['“', '”'], singleQuotes: ['‘', '’'], apostrophe: '’'},
+  'de': {quotes: ['„', '“'], singleQuotes: ['‚', '‘'], apostrophe: '’'},
+  'de-CH': {quotes: ['«', '»'], singleQuotes: ['‹', '›'], apostrophe: '’'},
+  'de-LI': {quotes: ['«', '»'], singleQuotes: ['‹', '›'], apostrophe: '’'},
+  'fr': {quotes: ['«', '»'], singleQuotes: ['‹', '›'], apostrophe: '’'},
+  'it': {quotes: ['«', '»'], singleQuotes: ['“', '”'], apostrophe: '’'},
+  'es': {quotes: ['«', '»'], singleQuotes: ['“', '”'], apostrophe: '’'},
+  'pt': {quotes: ['«', '»'], singleQuotes: ['“', '”'], apostrophe: '’'},
+  'pt-BR': {quotes: ['“', '”'], singleQuotes: ['‘', '’'], apostrophe: '’'},
+  'nl': {quotes: ['“', '”'], singleQuotes: ['‘', '’'], apostrophe: '’'},
+  'pl': {quotes: ['„', '”'], singleQuotes: ['‚', '’'], apostrophe: '’'},
+  'cs': {quotes: ['„', '“'], singleQuotes: ['‚', '‘'], apostrophe: '’'},
+  'sk': {quotes: ['„', '“'], singleQuotes: ['‚', '‘'], apostrophe: '’'},
+  'ru': {quotes: ['«', '»'], singleQuotes: ['„', '“'], apostrophe: '’'},
+  'uk': {quotes: ['«', '»'], singleQuotes: ['„', '“'], apostrophe: '’'},
+  'sv': {quotes: ['”', '”'], singleQuotes: ['’', '’'], apostrophe: '’'},
+  'fi': {quotes: ['”', '”'], singleQuotes: ['’', '’'], apostrophe: '’'},
+  'da': {quotes: ['»', '«'], singleQuotes: ['›', '‹'], apostrophe: '’'},
+  'nb': {quotes: ['«', '»'], singleQuotes: ['‘', '’'], apostrophe: '’'},
+  'no': {quotes: ['«', '»'], singleQuotes: ['‘', '’'], apostrophe: '’'},
+  'zh': {quotes: ['“', '”'], singleQuotes: ['‘', '’'], apostrophe: '’'}
+}
+
+// Get the quote style of a language ('de-CH', 'de_ch' or 'de').
+//
+// @returns {QuoteStyle} undefined for unknown languages.
+export function getQuoteStyle (lang: string | undefined): QuoteStyle | undefined {
+  if (!lang) return undefined
+  const code = lang.toLowerCase().replace('_', '-')
+  const codes = Object.keys(quoteStyles)
+  const match = codes.find((entry) => entry.toLowerCase() === code) ||
+    codes.find((entry) => entry.toLowerCase() === code.split('-')[0])
+  return match ? quoteStyles[match] : undefined
+}
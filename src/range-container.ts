@@ -1,5 +1,6 @@
 import Cursor from './cursor.js'
 import Selection from './selection.js'
+import MultiBlockSelection from './multi-block-selection.js'
 import {rangesAreEqual} from './util/dom.js'
 import {unwrapElement, type MaybeWrapped} from './dom-compat.js'
 
@@ -9,24 +10,31 @@ import {unwrapElement, type MaybeWrapped} from './dom-compat.js'
  * its designed to work with undefined ranges as well
  * so we can easily compare them without checking for undefined
  * all the time
+ *
+ * A range that spans several editable blocks is neither a cursor nor a
+ * selection but a multi block selection (see `hosts`).
  */
 
 export default class RangeContainer {
   public host: HTMLElement | undefined
+  public hosts: HTMLElement[]
   public range: Range | undefined
   public isAnythingSelected: boolean
   public isCursor: boolean
   public isSelection: boolean
+  public isMultiBlockSelection: boolean
 
-  constructor (editableHost?: MaybeWrapped<HTMLElement>, range?: Range) {
+  constructor (editableHost?: MaybeWrapped<HTMLElement>, range?: Range, hosts?: HTMLElement[]) {
     this.host = editableHost ? unwrapElement(editableHost) : undefined
+    this.hosts = hosts || (this.host ? [this.host] : [])
     // Safari 17 seems to modify the range instance on the fly which breaks later comparisons.
     // We clone the range at the time of the RangeContainer creation.
     // https://developer.apple.com/documentation/safari-release-notes/safari-17-release-notes#New-Features
     this.range = range?.cloneRange()
     this.isAnythingSelected = (range !== undefined)
-    this.isCursor = (this.isAnythingSelected && range!.collapsed)
-    this.isSelection = (this.isAnythingSelected && !this.isCursor)
+    this.isMultiBlockSelection = (this.isAnythingSelected && this.hosts.length > 1)
+    this.isCursor = (this.isAnythingSelected && !this.isMultiBlockSelection && range!.collapsed)
+    this.isSelection = (this.isAnythingSelected && !this.isMultiBlockSelection && !this.isCursor)
   }
 
   getCursor (): Cursor | undefined {
@@ -39,7 +47,13 @@ export default class RangeContainer {
     return undefined
   }
 
+  getMultiBlockSelection (): MultiBlockSelection | undefined {
+    if (this.isMultiBlockSelection && this.range) return new MultiBlockSelection(this.hosts, this.range)
+    return undefined
+  }
+
   forceCursor (): Cursor | undefined {
+    if (this.isMultiBlockSelection) return this.getMultiBlockSelection()?.deleteContent()
     if (!this.isSelection) return this.getCursor()
     const selection = this.getSelection()
     if (selection) return selection.deleteContent()
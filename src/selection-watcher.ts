@@ -2,6 +2,7 @@ import * as parser from './parser.js'
 import RangeContainer from './range-container.js'
 import Cursor from './cursor.js'
 import Selection from './selection.js'
+import type MultiBlockSelection from './multi-block-selection.js'
 import {getSelection} from './util/dom.js'
 import type Dispatcher from './dispatcher.js'
 
@@ -12,7 +13,7 @@ export default class SelectionWatcher {
   public dispatcher: Dispatcher
   public win: Window
   public selection: globalThis.Selection | null | undefined
-  public currentSelection: Cursor | Selection | undefined
+  public currentSelection: Cursor | Selection | MultiBlockSelection | undefined
   public currentRange: RangeContainer | undefined
 
   constructor (dispatcher: Dispatcher, win?: Window) {
@@ -55,6 +56,9 @@ export default class SelectionWatcher {
         if (range && range.commonAncestorContainer) {
           const hostNode = parser.getHost(range.commonAncestorContainer)
           if (hostNode) return new RangeContainer(hostNode, range)
+
+          const hosts = parser.getHostsOfRange(range)
+          if (hosts.length > 1) return new RangeContainer(hosts[0], range, hosts)
         }
       } catch (err) {
         // Range might be detached, return empty container
@@ -88,14 +92,28 @@ export default class SelectionWatcher {
       : rangeContainer.getSelection()
   }
 
+  /**
+  * Gets the current selection if something is selected, including
+  * selections that span several editable blocks.
+  *
+  * @return Either a Selection or MultiBlockSelection instance or undefined.
+  */
+  getFreshTextSelection (): Selection | MultiBlockSelection | undefined {
+    const rangeContainer = this.getRangeContainer()
+
+    return rangeContainer.isMultiBlockSelection
+      ? rangeContainer.getMultiBlockSelection()
+      : rangeContainer.getSelection()
+  }
+
   /**
   * Get the selection set by the last selectionChanged event.
   * Sometimes the event does not fire fast enough and the selection
   * you get is not the one the user sees.
   * In those cases use #getFreshSelection()
   *
-  * @return Either a Cursor or Selection instance or undefined if
-  * there is neither a selection or cursor.
+  * @return Either a Cursor, Selection or MultiBlockSelection instance
+  * or undefined if there is neither a selection or cursor.
   */
   getSelection () {
     return this.currentSelection
@@ -129,6 +147,10 @@ export default class SelectionWatcher {
         const selection = new Selection(this.currentRange.host, this.currentRange.range)
         this.currentSelection = selection
         this.dispatcher.notify('selection', selection.host, selection)
+      } else if (this.currentRange.isMultiBlockSelection) {
+        const selection = this.currentRange.getMultiBlockSelection()!
+        this.currentSelection = selection
+        this.dispatcher.notify('selection', selection.host, selection)
       } else {
         this.currentSelection = undefined
       }
@@ -1,3 +1,6 @@
+import {getQuoteStyle} from './quote-styles.js'
+import {getLang} from './util/dom.js'
+
 export type QuotePair = [string, string]
 export type SmartQuotesConfig = {
   smartQuotes?: boolean
@@ -11,9 +14,14 @@ const isValidQuotePairConfig = (quotePair: unknown): quotePair is QuotePair =>
   typeof quotePair[0] === 'string' &&
   typeof quotePair[1] === 'string'
 
-export const shouldApplySmartQuotes = (config: SmartQuotesConfig, target: HTMLElement): boolean => {
-  const {smartQuotes, quotes, singleQuotes} = config
-  return !!smartQuotes && isValidQuotePairConfig(quotes) && isValidQuotePairConfig(singleQuotes) && target.isContentEditable
+// Get the quotes for the text at a node. Configured quotes take precedence
+// over the quote style of the language (see quote-styles.ts).
+export const getSmartQuotes = (config: SmartQuotesConfig, node: Node): {quotes: QuotePair, singleQuotes: QuotePair} | undefined => {
+  const style = getQuoteStyle(getLang(node))
+  const quotes = isValidQuotePairConfig(config.quotes) ? config.quotes : style?.quotes
+  const singleQuotes = isValidQuotePairConfig(config.singleQuotes) ? config.singleQuotes : style?.singleQuotes
+  if (!quotes || !singleQuotes) return undefined
+  return {quotes, singleQuotes}
 }
 
 export const isDoubleQuote = (char: string): boolean => /^[\u00AB\u00BB\u201C\u201D\u201E\u0022]$/.test(char)
@@ -27,22 +35,6 @@ const shouldBeClosingQuote = (text: string[], indexCharBefore: number): boolean
 const hasCharAfter = (textArr: string[], indexCharAfter: number): boolean => !!textArr[indexCharAfter] && !isWhitespace(textArr[indexCharAfter])
 const shouldBeSingleOpeningQuote = (text: string[], indexCharBefore: number): boolean => !!text[indexCharBefore] && isDoubleQuote(text[indexCharBefore])
 
-export const replaceQuote = (range: Range, index: number, quoteType: string): Text | null => {
-  const startContainer = range?.startContainer
-  if (!startContainer || startContainer.nodeType !== 3) { // Node.TEXT_NODE
-    return null
-  }
-  const textNode = startContainer as Text
-  const nodeValue = textNode.nodeValue
-  if (!nodeValue) {
-    return null
-  }
-  const newText = `${nodeValue.substring(0, index)}${quoteType}${nodeValue.substring(index + 1)}`
-  const newTextNode = document.createTextNode(newText)
-  textNode.replaceWith(newTextNode)
-  return newTextNode
-}
-
 const hasSingleOpeningQuote = (textArr: string[], offset: number, singleOpeningQuote: string): boolean => {
   if (offset <= 0) {
     return false
@@ -55,61 +47,51 @@ const hasSingleOpeningQuote = (textArr: string[], offset: number, singleOpeningQ
   return false
 }
 
-export const applySmartQuotes = (
-  range: Range,
-  config: {quotes: QuotePair | string[], singleQuotes: QuotePair | string[]},
+// Get the typographic quote for a typed quote character.
+//
+// @param {String} The text before the typed quote.
+// @param {String} The typed quote.
+// @param {String} The character after the typed quote ('' at the end).
+// @returns {String} The quote to insert or undefined to keep the typed one.
+export const getSmartQuote = (
+  textBefore: string,
   char: string,
-  target: HTMLElement,
-  cursorOffset?: number
-): void => {
+  charAfter: string,
+  config: {quotes: QuotePair | string[], singleQuotes: QuotePair | string[]}
+): string | undefined => {
   const isCharSingleQuote = isSingleQuote(char)
   const isCharDoubleQuote = isDoubleQuote(char)
 
   if (!isCharDoubleQuote && !isCharSingleQuote) {
-    return
+    return undefined
   }
 
   const {quotes, singleQuotes} = config
   if (char === quotes[0] || char === quotes[1] || char === singleQuotes[0] || char === singleQuotes[1]) {
-    return
+    return undefined
   }
 
-  const offset = range.startOffset
-  const textContent = range.startContainer.textContent
-  if (!textContent) return
-  const textArr = [...textContent]
-  let newTextNode: Text | null = null
+  const textArr = [...textBefore, char, ...charAfter]
+  const offset = textArr.length - charAfter.length
 
   // Special case for a single quote following a double quote,
   // which should be transformed into a single opening quote
   if (isCharSingleQuote && shouldBeSingleOpeningQuote(textArr, offset - 2)) {
-    newTextNode = replaceQuote(range, offset - 1, singleQuotes[0])
+    return singleQuotes[0]
   } else if (shouldBeClosingQuote(textArr, offset - 2)) {
     if (isCharSingleQuote) {
       // Don't transform apostrophes
       if (hasCharAfter(textArr, offset)) {
-        return
+        return undefined
       }
       // Don't transform single-quote if there is no respective single-opening-quote
       if (!hasSingleOpeningQuote(textArr, offset, singleQuotes[0])) {
-        return
+        return undefined
       }
     }
-    const closingQuote = isCharSingleQuote ? singleQuotes[1] : quotes[1]
-    newTextNode = replaceQuote(range, offset - 1, closingQuote)
+    return isCharSingleQuote ? singleQuotes[1] : quotes[1]
   } else if (shouldBeOpeningQuote(textArr, offset - 2)) {
-    const openingQuote = isCharSingleQuote ? singleQuotes[0] : quotes[0]
-    newTextNode = replaceQuote(range, offset - 1, openingQuote)
-  }
-
-  if (!newTextNode) {
-    return
+    return isCharSingleQuote ? singleQuotes[0] : quotes[0]
   }
-
-  // Resets the cursor to the currentPosition after applying the smart-quote
-  const window = target.ownerDocument.defaultView
-  if (!window) return
-  const selection = window.getSelection()
-  if (!selection) return
-  selection.collapse(newTextNode, cursorOffset ?? offset)
+  return undefined
 }
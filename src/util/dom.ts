@@ -30,6 +30,12 @@ export const closest = (elem: Node | null | undefined, selector: string): HTMLEl
   return element?.closest<HTMLElement>(selector) ?? undefined
 }
 
+// Get the language of the nearest lang attribute or of the document.
+export const getLang = (node: Node | null | undefined): string => {
+  const langElem = closest(node, '[lang]')
+  return langElem?.getAttribute('lang') || node?.ownerDocument?.documentElement.lang || ''
+}
+
 export const createRange = (win: Window = window): Range => {
   return win.document.createRange()
 }
@@ -143,6 +149,20 @@ export const toCharacterRange = (range: Range, container: Node): CharacterRange
   return {start, end, text: rangeText}
 }
 
+// Get a collapsed range at viewport coordinates, e.g. the position
+// of a drop event. Returns undefined if the browser supports neither
+// caretRangeFromPoint() nor caretPositionFromPoint().
+export const createRangeFromPoint = (doc: Document, x: number, y: number): Range | undefined => {
+  if (typeof doc.caretRangeFromPoint === 'function') return doc.caretRangeFromPoint(x, y) || undefined
+  if (typeof doc.caretPositionFromPoint !== 'function') return undefined
+  const position = doc.caretPositionFromPoint(x, y)
+  if (!position) return undefined
+  const range = doc.createRange()
+  range.setStart(position.offsetNode, position.offset)
+  range.collapse(true)
+  return range
+}
+
 export const rangesAreEqual = (range1: Range, range2: Range): boolean => {
   return (
     range1.startContainer === range2.startContainer &&
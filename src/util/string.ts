@@ -77,3 +77,11 @@ export function replaceLast(text: string | null | undefined, searchValue: string
 export function endsWithSingleSpace(text: string): boolean {
   return /\S+\s{1}$/.test(text)
 }
+
+/**
+ * Check if an url runs script when it is opened (e.g. 'javascript:alert(1)').
+ * Browsers ignore whitespace and control characters within the scheme.
+ */
+export function isScriptUrl(url: string): boolean {
+  return /^(javascript|vbscript):/i.test(url.replace(/[\u0000- ]/g, ''))
+}